@@ -1,4 +1,4 @@
-import { Switch, Route } from "wouter";
+import { Switch, Route, Link, useLocation } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
@@ -6,13 +6,72 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { ThemeProvider } from "@/components/theme-provider";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { ApiStatusIndicator } from "@/components/api-status-indicator";
+import { WorkspaceSwitcher } from "@/components/workspace-switcher";
 import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useAuth } from "@/hooks/use-auth";
 import Dashboard from "@/pages/dashboard";
+import AnalysisView from "@/pages/analysis";
+import LoginPage from "@/pages/login";
+import UsersPage from "@/pages/users";
+import CachePage from "@/pages/cache";
 import NotFound from "@/pages/not-found";
-import { Shield, Plus } from "lucide-react";
+import { Shield, Plus, Loader2, LogOut, UserCircle, Users, Database } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
+import { getUserRoleLabel } from "@shared/schema";
+
+function UserMenu() {
+  const { user, can, logoutMutation } = useAuth();
+  if (!user) return null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="Account" data-testid="button-user-menu">
+          <UserCircle className="h-5 w-5" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-48">
+        <DropdownMenuLabel>
+          <p className="text-sm font-medium">{user.username}</p>
+          <p className="text-xs font-normal text-muted-foreground">{getUserRoleLabel(user.role)}</p>
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {can("admin") && (
+          <DropdownMenuItem asChild>
+            <Link href="/users" data-testid="link-users">
+              <Users className="h-4 w-4 mr-2" />
+              Users & Workspaces
+            </Link>
+          </DropdownMenuItem>
+        )}
+        {can("admin") && (
+          <DropdownMenuItem asChild>
+            <Link href="/cache" data-testid="link-cache">
+              <Database className="h-4 w-4 mr-2" />
+              Cache
+            </Link>
+          </DropdownMenuItem>
+        )}
+        <DropdownMenuItem onClick={() => logoutMutation.mutate()} data-testid="button-logout">
+          <LogOut className="h-4 w-4 mr-2" />
+          Sign Out
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
 
 function Header() {
+  const [, navigate] = useLocation();
+  const { can } = useAuth();
   const { data: healthData, isError } = useQuery({
     queryKey: ["/api/health"],
     refetchInterval: 30000,
@@ -40,21 +99,27 @@ function Header() {
 
           <div className="flex items-center gap-3">
             <ApiStatusIndicator isConnected={isConnected} />
-            <Button
-              size="default"
-              onClick={() => {
-                const input = document.querySelector<HTMLInputElement>('[data-testid="input-ip-address"]');
-                if (input) {
-                  input.focus();
-                  input.scrollIntoView({ behavior: "smooth", block: "center" });
-                }
-              }}
-              data-testid="button-new-analysis"
-            >
-              <Plus className="h-4 w-4 mr-2" />
-              New Analysis
-            </Button>
+            <WorkspaceSwitcher />
+            {can("analyze") && (
+              <Button
+                size="default"
+                onClick={() => {
+                  const input = document.querySelector<HTMLInputElement>('[data-testid="input-ip-address"]');
+                  if (input) {
+                    input.focus();
+                    input.scrollIntoView({ behavior: "smooth", block: "center" });
+                  } else {
+                    navigate("/");
+                  }
+                }}
+                data-testid="button-new-analysis"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                New Analysis
+              </Button>
+            )}
             <ThemeToggle />
+            <UserMenu />
           </div>
         </div>
       </div>
@@ -66,22 +131,44 @@ function Router() {
   return (
     <Switch>
       <Route path="/" component={Dashboard} />
+      <Route path="/analysis/:id" component={AnalysisView} />
+      <Route path="/ip/:address" component={AnalysisView} />
+      <Route path="/users" component={UsersPage} />
+      <Route path="/cache" component={CachePage} />
       <Route component={NotFound} />
     </Switch>
   );
 }
 
+// Everything but the login page needs a signed-in user
+function AuthGate() {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-muted-foreground">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+  if (!user) return <LoginPage />;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <main>
+        <Router />
+      </main>
+    </div>
+  );
+}
+
 function App() {
   return (
     <ThemeProvider defaultTheme="dark" storageKey="vpn-detector-theme">
       <QueryClientProvider client={queryClient}>
         <TooltipProvider>
-          <div className="min-h-screen bg-background">
-            <Header />
-            <main>
-              <Router />
-            </main>
-          </div>
+          <AuthGate />
           <Toaster />
         </TooltipProvider>
       </QueryClientProvider>
@@ -0,0 +1,101 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Link2, ExternalLink } from "lucide-react";
+import { RiskScoreGauge } from "@/components/risk-score-gauge";
+import { ScoreBreakdown } from "@/components/score-breakdown";
+import { DetectionStatusCard } from "@/components/detection-status-card";
+import { IpMap } from "@/components/ip-map";
+import { WhoisAccordion } from "@/components/whois-accordion";
+import { WhoisHistory } from "@/components/whois-history";
+import { IpProfile } from "@/components/ip-profile";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import type { IpAnalysis, WhoisRecord, ThreatLevel, TorExitListStatus } from "@shared/schema";
+
+interface AnalysisDetailProps {
+  analysis: IpAnalysis;
+  whois: WhoisRecord | null;
+  onSelect?: (analysis: IpAnalysis) => void;
+  // Hide the "open" link when already on the analysis's own page
+  standalone?: boolean;
+}
+
+export function analysisPath(analysis: Pick<IpAnalysis, "id">): string {
+  return `/analysis/${analysis.id}`;
+}
+
+export function AnalysisDetail({ analysis, whois, onSelect, standalone }: AnalysisDetailProps) {
+  const { toast } = useToast();
+  const { data: torList } = useQuery<TorExitListStatus>({
+    queryKey: ["/api/tor/status"],
+    refetchInterval: 300000,
+  });
+
+  const handleCopyLink = async () => {
+    const url = new URL(analysisPath(analysis), window.location.origin).toString();
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: "Link Copied", description: url });
+    } catch {
+      toast({
+        title: "Copy Failed",
+        description: url,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <>
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <span className="font-mono text-sm text-muted-foreground" data-testid="text-detail-ip">
+          {analysis.ipAddress}
+        </span>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={handleCopyLink} data-testid="button-copy-link">
+            <Link2 className="h-4 w-4 mr-2" />
+            Copy Link
+          </Button>
+          {!standalone && (
+            <Button variant="outline" size="sm" asChild>
+              <Link href={analysisPath(analysis)} data-testid="link-open-analysis">
+                <ExternalLink className="h-4 w-4 mr-2" />
+                Open
+              </Link>
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-6">
+          <RiskScoreGauge
+            score={analysis.riskScore}
+            threatLevel={analysis.threatLevel as ThreatLevel}
+            isVpn={analysis.isVpn}
+            isProxy={analysis.isProxy}
+            isTor={analysis.isTor}
+          />
+          <ScoreBreakdown
+            score={analysis.riskScore}
+            signals={analysis.signals ?? []}
+            policyVersion={analysis.policyVersion}
+          />
+        </div>
+        <DetectionStatusCard analysis={analysis} torList={torList} />
+      </div>
+
+      <IpMap
+        latitude={analysis.latitude}
+        longitude={analysis.longitude}
+        city={analysis.city}
+        country={analysis.country}
+        ipAddress={analysis.ipAddress}
+      />
+
+      <WhoisAccordion whois={whois} />
+      <WhoisHistory ipAddress={analysis.ipAddress} />
+      <IpProfile ipAddress={analysis.ipAddress} selectedId={analysis.id} onSelect={onSelect} />
+    </>
+  );
+}
@@ -1,21 +1,99 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Loader2, Upload, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { IpAnalysis } from "@shared/schema";
+import type { BulkJob, BulkJobItem, BulkJobProgress, IpAnalysis, ThreatLevel } from "@shared/schema";
 
 interface BulkUploadProps {
   onComplete?: (analyses: IpAnalysis[]) => void;
+  onView?: (analysis: IpAnalysis) => void;
   isLoading?: boolean;
 }
 
-export function BulkUpload({ onComplete, isLoading = false }: BulkUploadProps) {
+function getThreatBadgeVariant(level: ThreatLevel): "default" | "secondary" | "destructive" | "outline" {
+  switch (level) {
+    case "low":
+      return "secondary";
+    case "medium":
+      return "outline";
+    case "high":
+    case "critical":
+      return "destructive";
+  }
+}
+
+export function BulkUpload({ onComplete, onView, isLoading = false }: BulkUploadProps) {
   const { toast } = useToast();
   const [ipList, setIpList] = useState("");
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [job, setJob] = useState<BulkJob | null>(null);
+  const eventsRef = useRef<EventSource | null>(null);
+  const isAnalyzing = !!job && job.status !== "completed";
+
+  useEffect(() => () => eventsRef.current?.close(), []);
+
+  // The stream starts with a full snapshot, so a reconnect simply resyncs
+  const followJob = (jobId: string) => {
+    eventsRef.current?.close();
+    const events = new EventSource(`/api/jobs/${jobId}/events`);
+    eventsRef.current = events;
+
+    events.addEventListener("snapshot", (e) => {
+      setJob(JSON.parse((e as MessageEvent).data));
+    });
+    events.addEventListener("item", (e) => {
+      const item: BulkJobItem = JSON.parse((e as MessageEvent).data);
+      setJob((prev) => prev && {
+        ...prev,
+        ...item.progress,
+        results: item.result ? [...prev.results, item.result] : prev.results,
+        errors: item.error ? [...prev.errors, { ipAddress: item.ipAddress, error: item.error }] : prev.errors,
+      });
+    });
+    events.addEventListener("done", async (e) => {
+      const progress: BulkJobProgress = JSON.parse((e as MessageEvent).data);
+      events.close();
+
+      queryClient.invalidateQueries({ queryKey: ["/api/analyses"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+
+      toast({
+        title: "Bulk Analysis Complete",
+        description: `Analyzed ${progress.completed - progress.failed} of ${progress.total} IP addresses.`,
+      });
+
+      try {
+        const finished: BulkJob = await (await apiRequest("GET", `/api/jobs/${jobId}`)).json();
+        setJob(finished);
+        onComplete?.(finished.results.map((r) => r.analysis));
+      } catch {
+        setJob((prev) => prev && { ...prev, ...progress });
+      }
+    });
+    events.onerror = () => {
+      if (events.readyState === EventSource.CLOSED) {
+        toast({
+          title: "Progress Unavailable",
+          description: "Lost the connection to the bulk analysis job.",
+          variant: "destructive",
+        });
+        setJob((prev) => prev && { ...prev, status: "completed" });
+      }
+    };
+  };
 
   const handleAnalyze = async () => {
     const ips = ipList
@@ -32,33 +110,30 @@ export function BulkUpload({ onComplete, isLoading = false }: BulkUploadProps) {
       return;
     }
 
-    setIsAnalyzing(true);
     try {
       const response = await apiRequest("POST", "/api/bulk-analyze", { ips });
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || "Bulk analysis failed");
-      }
-
-      queryClient.invalidateQueries({ queryKey: ["/api/analyses"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      const data: { jobId: string; total: number } = await response.json();
 
-      toast({
-        title: "Bulk Analysis Complete",
-        description: `Analyzed ${data.analyses.length} IP addresses.`,
+      setJob({
+        id: data.jobId,
+        status: "queued",
+        total: data.total,
+        completed: 0,
+        failed: 0,
+        createdAt: new Date().toISOString(),
+        finishedAt: null,
+        results: [],
+        errors: [],
+        report: null,
       });
-
       setIpList("");
-      onComplete?.(data.analyses);
+      followJob(data.jobId);
     } catch (error) {
       toast({
         title: "Analysis Failed",
         description: error instanceof Error ? error.message : "Failed to analyze IPs",
         variant: "destructive",
       });
-    } finally {
-      setIsAnalyzing(false);
     }
   };
 
@@ -146,6 +221,69 @@ export function BulkUpload({ onComplete, isLoading = false }: BulkUploadProps) {
             Upload a CSV or TXT file with one IP per line
           </p>
         </div>
+
+        {job && (
+          <div className="border-t pt-4 space-y-3" data-testid="bulk-job">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium">
+                {job.status === "completed" ? "Completed" : job.status === "queued" ? "Queued" : "Analyzing"}
+              </span>
+              <span className="text-muted-foreground tabular-nums" data-testid="text-bulk-progress">
+                {job.completed} / {job.total}
+                {job.failed > 0 && ` (${job.failed} failed)`}
+              </span>
+            </div>
+            <Progress value={job.total ? (job.completed / job.total) * 100 : 0} data-testid="progress-bulk" />
+
+            {(job.results.length > 0 || job.errors.length > 0) && (
+              <ScrollArea className="h-64 rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="font-semibold">IP Address</TableHead>
+                      <TableHead className="font-semibold">Risk</TableHead>
+                      <TableHead className="font-semibold">Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {job.results.map(({ analysis }) => (
+                      <TableRow
+                        key={analysis.ipAddress}
+                        className={onView ? "cursor-pointer" : undefined}
+                        onClick={() => onView?.(analysis)}
+                        data-testid={`row-bulk-${analysis.ipAddress}`}
+                      >
+                        <TableCell className="font-mono text-sm">{analysis.ipAddress}</TableCell>
+                        <TableCell>
+                          <Badge variant={getThreatBadgeVariant(analysis.threatLevel as ThreatLevel)} className="text-xs">
+                            {analysis.riskScore}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex gap-1 flex-wrap">
+                            {analysis.isVpn && <Badge variant="destructive" className="text-xs">VPN</Badge>}
+                            {analysis.isProxy && <Badge variant="destructive" className="text-xs">Proxy</Badge>}
+                            {analysis.isTor && <Badge variant="destructive" className="text-xs">Tor</Badge>}
+                            {!analysis.isVpn && !analysis.isProxy && !analysis.isTor && (
+                              <Badge variant="secondary" className="text-xs">Clean</Badge>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                    {job.errors.map(({ ipAddress, error }) => (
+                      <TableRow key={ipAddress} data-testid={`row-bulk-error-${ipAddress}`}>
+                        <TableCell className="font-mono text-sm">{ipAddress}</TableCell>
+                        <TableCell>—</TableCell>
+                        <TableCell className="text-sm text-destructive truncate" title={error}>{error}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+            )}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
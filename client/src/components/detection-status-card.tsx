@@ -1,6 +1,13 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { type IpAnalysis, type ThreatLevel } from "@shared/schema";
+import { formatDistanceToNow } from "date-fns";
+import {
+  getAddressClassLabel,
+  type AddressClass,
+  type IpAnalysis,
+  type ThreatLevel,
+  type TorExitListStatus,
+} from "@shared/schema";
 import {
   Globe,
   Building2,
@@ -14,6 +21,7 @@ import {
 
 interface DetectionStatusCardProps {
   analysis: IpAnalysis;
+  torList?: TorExitListStatus | null;
 }
 
 function getThreatBadgeVariant(level: ThreatLevel): "default" | "secondary" | "destructive" | "outline" {
@@ -28,7 +36,11 @@ function getThreatBadgeVariant(level: ThreatLevel): "default" | "secondary" | "d
   }
 }
 
-export function DetectionStatusCard({ analysis }: DetectionStatusCardProps) {
+export function DetectionStatusCard({ analysis, torList }: DetectionStatusCardProps) {
+  // Analyses stored before address classification are all public lookups
+  const addressClass = (analysis.addressClass || "public") as AddressClass;
+  const isPublic = addressClass === "public";
+
   const metadataItems = [
     ...(analysis.isVpn && analysis.vpnProvider ? [{
       icon: Zap,
@@ -89,6 +101,13 @@ export function DetectionStatusCard({ analysis }: DetectionStatusCardProps) {
             <Badge variant="secondary" className="text-xs" data-testid="badge-ip-version">
               {analysis.ipVersion}
             </Badge>
+            <Badge
+              variant={isPublic ? "secondary" : "outline"}
+              className="text-xs"
+              data-testid="badge-address-class"
+            >
+              {getAddressClassLabel(addressClass)}
+            </Badge>
           </div>
         </div>
       </CardHeader>
@@ -106,6 +125,21 @@ export function DetectionStatusCard({ analysis }: DetectionStatusCardProps) {
           ))}
         </div>
 
+        {!isPublic && (
+          <p className="text-sm text-muted-foreground" data-testid="text-address-class-note">
+            {getAddressClassLabel(addressClass)} addresses are not routable on the public internet, so
+            no external lookups were made.
+          </p>
+        )}
+
+        {torList && isPublic && (
+          <p className="text-xs text-muted-foreground" data-testid="text-tor-list-age">
+            {torList.lastImportedAt
+              ? `Tor exit list: ${torList.count.toLocaleString()} relays, updated ${formatDistanceToNow(new Date(torList.lastImportedAt), { addSuffix: true })}`
+              : "Tor exit list not loaded"}
+          </p>
+        )}
+
         <div className="grid grid-cols-2 gap-4">
           {metadataItems.map(({ icon: Icon, label, value }) => (
             <div key={label} className="space-y-1">
@@ -1,4 +1,5 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
 import { format } from "date-fns";
 import {
   Table,
@@ -13,12 +14,22 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Tooltip,
   TooltipContent,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
-import { type IpAnalysis, type ThreatLevel } from "@shared/schema";
+import { type AnalysisPage, type IpAnalysis, type ThreatLevel } from "@shared/schema";
 import {
   History,
   Search,
@@ -28,15 +39,17 @@ import {
   Download,
   ChevronLeft,
   ChevronRight,
+  SlidersHorizontal,
 } from "lucide-react";
 
+// Query parameters for GET /api/analyses, minus sorting and paging
+export type HistoryFilters = Record<string, string>;
+
 interface HistoryTableProps {
-  analyses: IpAnalysis[];
-  isLoading?: boolean;
   onView?: (analysis: IpAnalysis) => void;
   onRescan?: (ipAddress: string) => void;
   onDelete?: (id: string) => void;
-  onExport?: (format: "csv" | "json") => void;
+  onExport?: (format: "csv" | "json", filters: HistoryFilters) => void;
 }
 
 function getThreatBadgeVariant(level: ThreatLevel): "default" | "secondary" | "destructive" | "outline" {
@@ -53,30 +66,76 @@ function getThreatBadgeVariant(level: ThreatLevel): "default" | "secondary" | "d
 
 const ITEMS_PER_PAGE = 10;
 
+const THREAT_LEVELS: ThreatLevel[] = ["low", "medium", "high", "critical"];
+
+const FLAG_FILTERS = [
+  { key: "isVpn", label: "VPN" },
+  { key: "isProxy", label: "Proxy" },
+  { key: "isTor", label: "Tor" },
+  { key: "isDatacenter", label: "Datacenter" },
+];
+
+const TEXT_FILTERS = [
+  { key: "country", label: "Country", placeholder: "DE or Germany" },
+  { key: "asn", label: "ASN", placeholder: "AS15169" },
+  { key: "provider", label: "VPN Provider", placeholder: "NordVPN" },
+];
+
+const SORT_OPTIONS: Record<string, { label: string; sort: string; order: string }> = {
+  newest: { label: "Newest first", sort: "analyzedAt", order: "desc" },
+  oldest: { label: "Oldest first", sort: "analyzedAt", order: "asc" },
+  riskiest: { label: "Highest risk", sort: "riskScore", order: "desc" },
+  safest: { label: "Lowest risk", sort: "riskScore", order: "asc" },
+  address: { label: "IP address", sort: "ipAddress", order: "asc" },
+};
+
 export function HistoryTable({
-  analyses,
-  isLoading = false,
   onView,
   onRescan,
   onDelete,
   onExport,
 }: HistoryTableProps) {
-  const [searchQuery, setSearchQuery] = useState("");
-  const [currentPage, setCurrentPage] = useState(1);
+  const [searchInput, setSearchInput] = useState("");
+  const [filters, setFilters] = useState<HistoryFilters>({});
+  const [sortKey, setSortKey] = useState("newest");
+  // Cursors of the pages before the current one; empty on the first page
+  const [cursors, setCursors] = useState<string[]>([]);
 
-  const filteredAnalyses = analyses.filter(
-    (a) =>
-      a.ipAddress.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      a.country?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      a.isp?.toLowerCase().includes(searchQuery.toLowerCase())
-  );
+  // Debounce typing into the free-text search
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilters((f) => {
+        const { q: _previous, ...rest } = f;
+        return searchInput.trim() ? { ...rest, q: searchInput.trim() } : rest;
+      });
+      setCursors([]);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
 
-  const totalPages = Math.ceil(filteredAnalyses.length / ITEMS_PER_PAGE);
-  const startIndex = (currentPage - 1) * ITEMS_PER_PAGE;
-  const paginatedAnalyses = filteredAnalyses.slice(
-    startIndex,
-    startIndex + ITEMS_PER_PAGE
-  );
+  const setFilter = (key: string, value: string | null) => {
+    setFilters(({ [key]: _previous, ...rest }) => (value ? { ...rest, [key]: value } : rest));
+    setCursors([]);
+  };
+
+  const { sort, order } = SORT_OPTIONS[sortKey];
+  const cursor = cursors[cursors.length - 1];
+  const { data: page, isLoading, isError } = useQuery<AnalysisPage>({
+    queryKey: ["/api/analyses", { ...filters, sort, order, limit: ITEMS_PER_PAGE, cursor }],
+    placeholderData: keepPreviousData,
+  });
+
+  const paginatedAnalyses = page?.items ?? [];
+  const total = page?.total ?? 0;
+  const startIndex = cursors.length * ITEMS_PER_PAGE;
+  const hasFilters = Object.keys(filters).length > 0;
+  const advancedFilterCount = Object.keys(filters).filter((k) => k !== "q").length;
+  const selectedLevels = filters.threatLevel?.split(",") ?? [];
+
+  const toggleLevel = (level: ThreatLevel, checked: boolean) => {
+    const levels = checked ? [...selectedLevels, level] : selectedLevels.filter((l) => l !== level);
+    setFilter("threatLevel", THREAT_LEVELS.filter((l) => levels.includes(l)).join(","));
+  };
 
   return (
     <Card>
@@ -90,16 +149,146 @@ export function HistoryTable({
             <div className="relative flex-1 min-w-[200px]">
               <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
               <Input
-                placeholder="Search by IP, country, ISP..."
-                value={searchQuery}
-                onChange={(e) => {
-                  setSearchQuery(e.target.value);
-                  setCurrentPage(1);
-                }}
+                placeholder="Search by IP, location, ISP, ASN..."
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
                 className="pl-8 h-9"
                 data-testid="input-search-history"
               />
             </div>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" className="h-9" data-testid="button-history-filters">
+                  <SlidersHorizontal className="mr-2 h-4 w-4" />
+                  Filters
+                  {advancedFilterCount > 0 && (
+                    <Badge variant="secondary" className="ml-2 px-1.5">{advancedFilterCount}</Badge>
+                  )}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent align="end" className="w-80 space-y-4">
+                <div className="space-y-2">
+                  <p className="text-xs text-muted-foreground font-medium uppercase tracking-wide">Threat Level</p>
+                  <div className="grid grid-cols-2 gap-2">
+                    {THREAT_LEVELS.map((level) => (
+                      <Label key={level} className="flex items-center gap-2 font-normal capitalize">
+                        <Checkbox
+                          checked={selectedLevels.includes(level)}
+                          onCheckedChange={(checked) => toggleLevel(level, checked === true)}
+                          data-testid={`checkbox-filter-${level}`}
+                        />
+                        {level}
+                      </Label>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <p className="text-xs text-muted-foreground font-medium uppercase tracking-wide">Detected As</p>
+                  <div className="grid grid-cols-2 gap-2">
+                    {FLAG_FILTERS.map(({ key, label }) => (
+                      <Label key={key} className="flex items-center gap-2 font-normal">
+                        <Checkbox
+                          checked={filters[key] === "true"}
+                          onCheckedChange={(checked) => setFilter(key, checked === true ? "true" : null)}
+                          data-testid={`checkbox-filter-${key}`}
+                        />
+                        {label}
+                      </Label>
+                    ))}
+                  </div>
+                </div>
+                {TEXT_FILTERS.map(({ key, label, placeholder }) => (
+                  <div key={key} className="space-y-1">
+                    <Label htmlFor={`filter-${key}`} className="text-xs">{label}</Label>
+                    <Input
+                      id={`filter-${key}`}
+                      placeholder={placeholder}
+                      value={filters[key] ?? ""}
+                      onChange={(e) => setFilter(key, e.target.value.trim() || null)}
+                      className="h-8"
+                      data-testid={`input-filter-${key}`}
+                    />
+                  </div>
+                ))}
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1">
+                    <Label htmlFor="filter-from" className="text-xs">From</Label>
+                    <Input
+                      id="filter-from"
+                      type="date"
+                      value={filters.from ?? ""}
+                      onChange={(e) => setFilter("from", e.target.value || null)}
+                      className="h-8"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="filter-to" className="text-xs">To</Label>
+                    <Input
+                      id="filter-to"
+                      type="date"
+                      value={filters.to?.slice(0, 10) ?? ""}
+                      // Include the whole day
+                      onChange={(e) => setFilter("to", e.target.value ? `${e.target.value}T23:59:59.999Z` : null)}
+                      className="h-8"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="filter-min-score" className="text-xs">Min Score</Label>
+                    <Input
+                      id="filter-min-score"
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={filters.minScore ?? ""}
+                      onChange={(e) => setFilter("minScore", e.target.value || null)}
+                      className="h-8"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="filter-max-score" className="text-xs">Max Score</Label>
+                    <Input
+                      id="filter-max-score"
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={filters.maxScore ?? ""}
+                      onChange={(e) => setFilter("maxScore", e.target.value || null)}
+                      className="h-8"
+                    />
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="w-full"
+                  disabled={!hasFilters}
+                  onClick={() => {
+                    setFilters({});
+                    setSearchInput("");
+                    setCursors([]);
+                  }}
+                  data-testid="button-clear-filters"
+                >
+                  Clear filters
+                </Button>
+              </PopoverContent>
+            </Popover>
+            <Select
+              value={sortKey}
+              onValueChange={(value) => {
+                setSortKey(value);
+                setCursors([]);
+              }}
+            >
+              <SelectTrigger className="h-9 w-[140px]" data-testid="select-history-sort">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SORT_OPTIONS).map(([key, { label }]) => (
+                  <SelectItem key={key} value={key}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
             {onExport && (
               <div className="flex gap-1">
                 <Tooltip>
@@ -107,7 +296,7 @@ export function HistoryTable({
                     <Button
                       variant="outline"
                       size="icon"
-                      onClick={() => onExport("csv")}
+                      onClick={() => onExport("csv", filters)}
                       data-testid="button-export-csv"
                     >
                       <Download className="h-4 w-4" />
@@ -127,15 +316,19 @@ export function HistoryTable({
               <Skeleton key={i} className="h-12 w-full" />
             ))}
           </div>
-        ) : filteredAnalyses.length === 0 ? (
+        ) : isError ? (
+          <div className="flex items-center justify-center h-48 text-sm text-muted-foreground">
+            Failed to load analysis history
+          </div>
+        ) : paginatedAnalyses.length === 0 ? (
           <div className="flex flex-col items-center justify-center h-48 text-muted-foreground">
             <History className="h-10 w-10 mb-3 opacity-50" />
             <p className="text-sm font-medium">
-              {searchQuery ? "No matching results found" : "No analysis history yet"}
+              {hasFilters ? "No matching results found" : "No analysis history yet"}
             </p>
             <p className="text-xs mt-1">
-              {searchQuery
-                ? "Try adjusting your search terms"
+              {hasFilters
+                ? "Try adjusting your search terms or filters"
                 : "Start by analyzing an IP address above"}
             </p>
           </div>
@@ -241,29 +434,29 @@ export function HistoryTable({
               </Table>
             </div>
 
-            {totalPages > 1 && (
+            {(cursors.length > 0 || page?.nextCursor) && (
               <div className="flex items-center justify-between mt-4">
                 <p className="text-sm text-muted-foreground">
-                  Showing {startIndex + 1}-{Math.min(startIndex + ITEMS_PER_PAGE, filteredAnalyses.length)} of {filteredAnalyses.length} results
+                  Showing {startIndex + 1}-{startIndex + paginatedAnalyses.length} of {total} results
                 </p>
                 <div className="flex items-center gap-2">
                   <Button
                     variant="outline"
                     size="icon"
-                    onClick={() => setCurrentPage((p) => Math.max(1, p - 1))}
-                    disabled={currentPage === 1}
+                    onClick={() => setCursors((c) => c.slice(0, -1))}
+                    disabled={cursors.length === 0}
                     data-testid="button-prev-page"
                   >
                     <ChevronLeft className="h-4 w-4" />
                   </Button>
                   <span className="text-sm font-medium px-2">
-                    Page {currentPage} of {totalPages}
+                    Page {cursors.length + 1} of {Math.max(1, Math.ceil(total / ITEMS_PER_PAGE))}
                   </span>
                   <Button
                     variant="outline"
                     size="icon"
-                    onClick={() => setCurrentPage((p) => Math.min(totalPages, p + 1))}
-                    disabled={currentPage === totalPages}
+                    onClick={() => page?.nextCursor && setCursors((c) => [...c, page.nextCursor!])}
+                    disabled={!page?.nextCursor}
                     data-testid="button-next-page"
                   >
                     <ChevronRight className="h-4 w-4" />
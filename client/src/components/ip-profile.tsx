@@ -0,0 +1,176 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Activity, ArrowRight, Loader2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { cn } from "@/lib/utils";
+import {
+  getAnalysisFieldLabel,
+  type AnalysisChange,
+  type AnalysisTimelineEntry,
+  type IpAnalysis,
+  type ThreatLevel,
+} from "@shared/schema";
+
+interface IpProfileProps {
+  ipAddress: string;
+  selectedId?: string;
+  onSelect?: (analysis: IpAnalysis) => void;
+}
+
+const chartConfig = {
+  riskScore: { label: "Risk Score", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+function getThreatBadgeVariant(level: ThreatLevel): "default" | "secondary" | "destructive" | "outline" {
+  switch (level) {
+    case "low":
+      return "secondary";
+    case "medium":
+      return "outline";
+    case "high":
+    case "critical":
+      return "destructive";
+  }
+}
+
+function formatValue(value: AnalysisChange["before"]): string {
+  if (value === null || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+}
+
+export function IpProfile({ ipAddress, selectedId, onSelect }: IpProfileProps) {
+  const { data: timeline = [], isLoading } = useQuery<AnalysisTimelineEntry[]>({
+    queryKey: ["/api/ip", ipAddress, "timeline"],
+  });
+
+  const points = [...timeline].reverse().map(({ analysis }) => ({
+    time: new Date(analysis.analyzedAt).getTime(),
+    riskScore: analysis.riskScore,
+  }));
+  const first = timeline[timeline.length - 1]?.analysis;
+  const changedScans = timeline.filter((e) => e.changes.length > 0).length;
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center gap-2 text-xl font-semibold">
+          <Activity className="h-5 w-5 text-primary" />
+          IP Profile
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-20 text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : timeline.length < 2 ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-ip-timeline-single">
+            {first
+              ? `Scanned once, on ${format(new Date(first.analyzedAt), "MMM d, yyyy HH:mm")}. Rescan to track changes.`
+              : "No scans stored for this address"}
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground" data-testid="text-ip-timeline-summary">
+              {timeline.length} scans since {format(new Date(first!.analyzedAt), "MMM d, yyyy")}
+              {` · ${changedScans} with changes`}
+            </p>
+
+            <ChartContainer config={chartConfig} className="aspect-auto h-48 w-full">
+              <LineChart data={points} margin={{ left: 0, right: 12, top: 8, bottom: 0 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="time"
+                  type="number"
+                  scale="time"
+                  domain={["dataMin", "dataMax"]}
+                  tickFormatter={(t) => format(new Date(t), "MMM d")}
+                  tickLine={false}
+                  axisLine={false}
+                />
+                <YAxis domain={[0, 100]} width={32} tickLine={false} axisLine={false} />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      labelFormatter={(_, payload) =>
+                        payload[0] ? format(new Date(payload[0].payload.time), "MMM d, yyyy HH:mm") : ""
+                      }
+                    />
+                  }
+                />
+                <Line
+                  dataKey="riskScore"
+                  type="monotone"
+                  stroke="var(--color-riskScore)"
+                  strokeWidth={2}
+                  dot={{ r: 3 }}
+                />
+              </LineChart>
+            </ChartContainer>
+
+            <ScrollArea className="h-72 pr-3">
+              <ol className="space-y-2">
+                {timeline.map(({ analysis, changes }) => (
+                  <li key={analysis.id}>
+                    <button
+                      type="button"
+                      onClick={() => onSelect?.(analysis)}
+                      className={cn(
+                        "w-full rounded-md border p-3 text-left hover-elevate active-elevate-2",
+                        analysis.id === selectedId && "border-primary",
+                      )}
+                      data-testid={`button-timeline-scan-${analysis.id}`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-medium">
+                          {format(new Date(analysis.analyzedAt), "MMM d, yyyy HH:mm")}
+                        </span>
+                        <Badge variant={getThreatBadgeVariant(analysis.threatLevel as ThreatLevel)} className="text-xs">
+                          {analysis.riskScore}
+                        </Badge>
+                      </div>
+                      {changes.length > 0 ? (
+                        <dl className="mt-2 space-y-1">
+                          {changes.map(({ field, before, after }) => (
+                            <div key={field} className="flex items-center gap-2 text-xs flex-wrap">
+                              <dt className="font-medium text-muted-foreground w-24 shrink-0">
+                                {getAnalysisFieldLabel(field)}
+                              </dt>
+                              <dd className="flex items-center gap-1 min-w-0 break-all">
+                                <span className="rounded bg-red-500/10 px-1 text-red-700 dark:text-red-400">
+                                  {formatValue(before)}
+                                </span>
+                                <ArrowRight className="h-3 w-3 shrink-0 text-muted-foreground" />
+                                <span className="rounded bg-green-500/10 px-1 text-green-700 dark:text-green-400">
+                                  {formatValue(after)}
+                                </span>
+                              </dd>
+                            </div>
+                          ))}
+                        </dl>
+                      ) : (
+                        <p className="mt-1 text-xs text-muted-foreground">
+                          {analysis.id === first?.id ? "First scan" : "No changes"}
+                        </p>
+                      )}
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            </ScrollArea>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,96 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { type RiskSignal } from "@shared/schema";
+import { ListChecks } from "lucide-react";
+
+interface ScoreBreakdownProps {
+  score: number;
+  signals: RiskSignal[];
+  policyVersion?: number | null;
+}
+
+const SIGNAL_LABELS: Record<string, string> = {
+  vpn: "VPN",
+  proxy: "Proxy",
+  tor: "Tor Exit",
+  datacenter: "Datacenter",
+  "abuse-confidence": "Abuse Confidence",
+  "abuse-reports": "Abuse Reports",
+};
+
+function formatValue(value: RiskSignal["value"]): string | null {
+  if (value === null || value === true) return null;
+  if (value === false) return "No";
+  return String(value);
+}
+
+export function ScoreBreakdown({ score, signals, policyVersion }: ScoreBreakdownProps) {
+  // The strongest "max" signal sets the base score; "add" signals stack on top
+  const sorted = [...signals].sort((a, b) => b.weight - a.weight);
+  const baseSignal = sorted.find((s) => s.mode === "max");
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2 text-base font-semibold">
+            <ListChecks className="h-4 w-4 text-primary" />
+            Why this score
+          </CardTitle>
+          {policyVersion != null && (
+            <Badge variant="secondary" className="text-xs" data-testid="badge-policy-version">
+              Policy v{policyVersion}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {sorted.length === 0 ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-signals">
+            No risk signals were detected for this address.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {sorted.map((signal, idx) => {
+              const value = formatValue(signal.value);
+              const isBase = signal === baseSignal;
+              const counted = isBase || signal.mode === "add";
+              return (
+                <div
+                  key={idx}
+                  className={`flex items-start justify-between gap-3 p-2 rounded-md border ${counted ? "" : "opacity-60"}`}
+                  data-testid={`row-signal-${idx}`}
+                >
+                  <div className="min-w-0 space-y-0.5">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="text-sm font-medium">
+                        {SIGNAL_LABELS[signal.signal] || signal.signal}
+                      </span>
+                      <Badge variant="outline" className="text-xs font-mono">
+                        {signal.source}
+                      </Badge>
+                    </div>
+                    {(signal.match || value) && (
+                      <p className="text-xs text-muted-foreground truncate" title={value ?? undefined}>
+                        {signal.match ? `Matched "${signal.match}"` : null}
+                        {signal.match && value ? " in " : null}
+                        {value}
+                      </p>
+                    )}
+                  </div>
+                  <span className="text-sm font-semibold tabular-nums whitespace-nowrap">
+                    {signal.mode === "add" ? `+${signal.weight}` : signal.weight}
+                  </span>
+                </div>
+              );
+            })}
+            <div className="flex items-center justify-between pt-2 text-xs text-muted-foreground">
+              <span>Strongest signal sets the base; bonuses are added (max 100)</span>
+              <span className="text-sm font-semibold text-foreground tabular-nums">= {score}</span>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,279 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2, Network, Search } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  type BulkJob,
+  type BulkJobItem,
+  type BulkJobProgress,
+  type SubnetReport,
+  type SubnetScanJob,
+  type ThreatLevel,
+} from "@shared/schema";
+
+interface SubnetScanProps {
+  onAnalyze?: (ipAddress: string) => void;
+}
+
+function getThreatBadgeVariant(level: ThreatLevel): "default" | "secondary" | "destructive" | "outline" {
+  switch (level) {
+    case "low":
+      return "secondary";
+    case "medium":
+      return "outline";
+    case "high":
+    case "critical":
+      return "destructive";
+  }
+}
+
+function percent(count: number, total: number): string {
+  return total ? `${Math.round((count / total) * 100)}%` : "0%";
+}
+
+export function SubnetScan({ onAnalyze }: SubnetScanProps) {
+  const { toast } = useToast();
+  const [cidr, setCidr] = useState("");
+  const [progress, setProgress] = useState<BulkJobProgress | null>(null);
+  const eventsRef = useRef<EventSource | null>(null);
+
+  useEffect(() => () => eventsRef.current?.close(), []);
+
+  // Large samples run as a job: follow its progress, then fetch the report
+  const followScan = (jobId: string) => new Promise<SubnetReport>((resolve, reject) => {
+    eventsRef.current?.close();
+    const events = new EventSource(`/api/jobs/${jobId}/events`);
+    eventsRef.current = events;
+
+    events.addEventListener("snapshot", (e) => {
+      const job: BulkJob = JSON.parse((e as MessageEvent).data);
+      setProgress(job);
+    });
+    events.addEventListener("item", (e) => {
+      const item: BulkJobItem = JSON.parse((e as MessageEvent).data);
+      setProgress(item.progress);
+    });
+    events.addEventListener("done", async () => {
+      events.close();
+      try {
+        const job: BulkJob = await (await apiRequest("GET", `/api/jobs/${jobId}`)).json();
+        if (job.report) resolve(job.report);
+        else reject(new Error("The scan finished without a report"));
+      } catch (error) {
+        reject(error);
+      }
+    });
+    events.onerror = () => {
+      if (events.readyState === EventSource.CLOSED) {
+        reject(new Error("Lost the connection to the subnet scan job"));
+      }
+    };
+  });
+
+  const scanMutation = useMutation({
+    mutationFn: async (value: string): Promise<SubnetReport> => {
+      setProgress(null);
+      const response = await apiRequest("POST", "/api/subnet-scan", { cidr: value });
+      if (response.status !== 202) return response.json();
+      const job: SubnetScanJob = await response.json();
+      try {
+        return await followScan(job.jobId);
+      } finally {
+        setProgress(null);
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Subnet Scan Failed",
+        description: error.message || "Failed to scan subnet",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const report = scanMutation.data;
+  const summary = report
+    ? [
+        { label: "VPN", count: report.counts.vpn },
+        { label: "Proxy", count: report.counts.proxy },
+        { label: "Tor", count: report.counts.tor },
+        { label: "Datacenter", count: report.counts.datacenter },
+      ]
+    : [];
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center gap-2 text-xl font-semibold">
+          <Network className="h-5 w-5 text-primary" />
+          Subnet Scan
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (cidr.trim()) scanMutation.mutate(cidr.trim());
+          }}
+        >
+          <Input
+            placeholder="203.0.113.0/24 or 2001:db8::/120"
+            value={cidr}
+            onChange={(e) => setCidr(e.target.value)}
+            disabled={scanMutation.isPending}
+            className="font-mono text-sm"
+            data-testid="input-subnet-cidr"
+          />
+          <Button type="submit" disabled={scanMutation.isPending || !cidr.trim()} data-testid="button-scan-subnet">
+            {scanMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Search className="mr-2 h-4 w-4" />
+            )}
+            Scan
+          </Button>
+        </form>
+        <p className="text-xs text-muted-foreground">
+          Prefixes larger than 256 addresses are sampled evenly across the range.
+        </p>
+
+        {progress && (
+          <div className="space-y-1" data-testid="subnet-progress">
+            <p className="text-xs text-muted-foreground">
+              Scanned {progress.completed} of {progress.total} addresses
+              {progress.failed > 0 && ` · ${progress.failed} failed`}
+            </p>
+            <Progress value={progress.total ? (progress.completed / progress.total) * 100 : 0} />
+          </div>
+        )}
+
+        {report && (
+          <div className="space-y-4" data-testid="subnet-report">
+            <div className="flex items-center justify-between gap-2 flex-wrap">
+              <Badge variant="outline" className="font-mono text-sm">{report.cidr}</Badge>
+              <span className="text-xs text-muted-foreground" data-testid="text-subnet-coverage">
+                {report.sampled
+                  ? `Sampled ${report.scanned} of ${BigInt(report.totalAddresses).toLocaleString()} addresses`
+                  : `Scanned all ${report.scanned} addresses`}
+                {` · average risk ${report.averageRiskScore}`}
+              </span>
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              {summary.map(({ label, count }) => (
+                <div key={label} className="p-3 rounded-md border" data-testid={`stat-subnet-${label.toLowerCase()}`}>
+                  <p className="text-xs text-muted-foreground font-medium uppercase tracking-wide">{label}</p>
+                  <p className="text-lg font-semibold tabular-nums">
+                    {count} <span className="text-xs font-normal text-muted-foreground">{percent(count, report.scanned)}</span>
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground font-medium uppercase tracking-wide">Top ASNs</p>
+                {report.topAsns.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No network data</p>
+                ) : (
+                  report.topAsns.map(({ asn, name, count }) => (
+                    <div key={asn} className="flex justify-between gap-2 text-sm">
+                      <span className="truncate" title={name ?? undefined}>
+                        <span className="font-mono">{asn}</span> {name}
+                      </span>
+                      <span className="tabular-nums text-muted-foreground">{count}</span>
+                    </div>
+                  ))
+                )}
+              </div>
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground font-medium uppercase tracking-wide">Top Providers</p>
+                {report.topProviders.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No provider data</p>
+                ) : (
+                  report.topProviders.map(({ name, count }) => (
+                    <div key={name} className="flex justify-between gap-2 text-sm">
+                      <span className="truncate" title={name}>{name}</span>
+                      <span className="tabular-nums text-muted-foreground">{count}</span>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+
+            <ScrollArea className="h-72 rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="font-semibold">IP Address</TableHead>
+                    <TableHead className="font-semibold">Risk</TableHead>
+                    <TableHead className="font-semibold">Status</TableHead>
+                    <TableHead className="font-semibold">ASN</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.addresses.map((a) => {
+                    const flags = [
+                      a.isVpn && (a.vpnProvider ? `VPN (${a.vpnProvider})` : "VPN"),
+                      a.isProxy && "Proxy",
+                      a.isTor && "Tor",
+                      a.isDatacenter && "Datacenter",
+                    ].filter((flag): flag is string => !!flag);
+                    return (
+                      <TableRow
+                        key={a.ipAddress}
+                        className={onAnalyze ? "cursor-pointer" : undefined}
+                        onClick={() => onAnalyze?.(a.ipAddress)}
+                        data-testid={`row-subnet-${a.ipAddress}`}
+                      >
+                        <TableCell className="font-mono text-sm">{a.ipAddress}</TableCell>
+                        <TableCell>
+                          <Badge variant={getThreatBadgeVariant(a.threatLevel as ThreatLevel)} className="text-xs">
+                            {a.riskScore}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex gap-1 flex-wrap">
+                            {flags.length === 0 ? (
+                              <Badge variant="secondary" className="text-xs">
+                                {a.addressClass === "public" ? "Clean" : a.addressClass}
+                              </Badge>
+                            ) : (
+                              flags.map((flag) => (
+                                <Badge key={flag} variant="destructive" className="text-xs">{flag}</Badge>
+                              ))
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-sm font-mono">{a.asn || "—"}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+            {onAnalyze && (
+              <p className="text-xs text-muted-foreground">Click an address to run a full analysis.</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,7 +6,7 @@ import {
 } from "@/components/ui/accordion";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { type WhoisRecord } from "@shared/schema";
-import { FileText, Network, User, Server } from "lucide-react";
+import { FileText, Network, User, Server, Terminal } from "lucide-react";
 
 interface WhoisAccordionProps {
   whois: WhoisRecord | null;
@@ -156,6 +156,27 @@ export function WhoisAccordion({ whois }: WhoisAccordionProps) {
               </AccordionContent>
             </AccordionItem>
           )}
+          {whois.rawText && (
+            <AccordionItem value="raw" className="border rounded-md px-4">
+              <AccordionTrigger className="hover:no-underline py-3">
+                <div className="flex items-center gap-2">
+                  <Terminal className="h-4 w-4 text-muted-foreground" />
+                  <span className="font-medium">Raw WHOIS</span>
+                  {whois.registrar && (
+                    <span className="text-xs text-muted-foreground font-mono">{whois.registrar}</span>
+                  )}
+                </div>
+              </AccordionTrigger>
+              <AccordionContent className="pb-4">
+                <pre
+                  className="max-h-80 overflow-auto rounded-md bg-muted p-3 text-xs font-mono whitespace-pre"
+                  data-testid="text-whois-raw"
+                >
+                  {whois.rawText}
+                </pre>
+              </AccordionContent>
+            </AccordionItem>
+          )}
         </Accordion>
       </CardContent>
     </Card>
@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { History, Loader2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { getWhoisFieldLabel, type WhoisHistoryEntry } from "@shared/schema";
+
+interface WhoisHistoryProps {
+  ipAddress: string;
+}
+
+function formatDate(value: Date | string | null): string {
+  return value ? new Date(value).toLocaleDateString() : "—";
+}
+
+function ChangeDiff({ entry }: { entry: WhoisHistoryEntry }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="font-semibold">Field</TableHead>
+          <TableHead className="font-semibold">Before</TableHead>
+          <TableHead className="font-semibold">After</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {entry.changes.map(({ field, before, after }) => (
+          <TableRow key={field} data-testid={`row-whois-change-${field}`}>
+            <TableCell className="text-sm font-medium">{getWhoisFieldLabel(field)}</TableCell>
+            <TableCell className="text-sm break-all">
+              {before ? (
+                <span className="rounded bg-red-500/10 px-1 text-red-700 line-through dark:text-red-400">{before}</span>
+              ) : (
+                <span className="text-muted-foreground">—</span>
+              )}
+            </TableCell>
+            <TableCell className="text-sm break-all">
+              {after ? (
+                <span className="rounded bg-green-500/10 px-1 text-green-700 dark:text-green-400">{after}</span>
+              ) : (
+                <span className="text-muted-foreground">—</span>
+              )}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export function WhoisHistory({ ipAddress }: WhoisHistoryProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { data: timeline = [], isLoading } = useQuery<WhoisHistoryEntry[]>({
+    queryKey: ["/api/whois", ipAddress, "history"],
+  });
+
+  // Default to the most recent change
+  const selected =
+    timeline.find((e) => e.record.id === selectedId) ?? timeline.find((e) => e.changes.length > 0);
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center gap-2 text-xl font-semibold">
+          <History className="h-5 w-5 text-primary" />
+          WHOIS History
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-20 text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : timeline.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No WHOIS records stored for this address</p>
+        ) : timeline.length === 1 ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-whois-history-unchanged">
+            No registration changes since {formatDate(timeline[0].record.fetchedAt)}
+            {timeline[0].record.lastSeenAt && ` (last checked ${formatDate(timeline[0].record.lastSeenAt)})`}
+          </p>
+        ) : (
+          <>
+            <ol className="relative space-y-3 border-l pl-4">
+              {timeline.map((entry) => {
+                const { record, changes } = entry;
+                const isSelected = selected?.record.id === record.id;
+                return (
+                  <li key={record.id} className="relative">
+                    <span
+                      className={cn(
+                        "absolute -left-[21px] top-1.5 h-2.5 w-2.5 rounded-full border-2 border-background",
+                        changes.length > 0 ? "bg-primary" : "bg-muted-foreground",
+                      )}
+                    />
+                    <button
+                      type="button"
+                      disabled={changes.length === 0}
+                      onClick={() => setSelectedId(record.id)}
+                      className={cn(
+                        "w-full rounded-md p-2 text-left transition-colors",
+                        changes.length > 0 && "hover-elevate",
+                        isSelected && "bg-muted",
+                      )}
+                      data-testid={`button-whois-version-${record.id}`}
+                    >
+                      <div className="flex items-center justify-between gap-2 flex-wrap">
+                        <span className="text-sm font-medium">
+                          {record.registrantOrg || record.netName || "Unknown registrant"}
+                          <span className="ml-2 text-xs font-mono text-muted-foreground">v{record.version}</span>
+                        </span>
+                        <span className="text-xs text-muted-foreground tabular-nums">
+                          {formatDate(record.fetchedAt)} – {formatDate(record.lastSeenAt)}
+                        </span>
+                      </div>
+                      <div className="mt-1 flex gap-1 flex-wrap">
+                        {changes.length === 0 ? (
+                          <Badge variant="secondary" className="text-xs">First seen</Badge>
+                        ) : (
+                          changes.map(({ field }) => (
+                            <Badge key={field} variant="outline" className="text-xs">
+                              {getWhoisFieldLabel(field)}
+                            </Badge>
+                          ))
+                        )}
+                      </div>
+                    </button>
+                  </li>
+                );
+              })}
+            </ol>
+
+            {selected && (
+              <div className="rounded-md border" data-testid="whois-history-diff">
+                <ChangeDiff entry={selected} />
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,60 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Briefcase } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getErrorMessage, queryClient } from "@/lib/queryClient";
+import type { WorkspaceList } from "@shared/schema";
+
+// History, stats and API keys all belong to the current workspace, so
+// switching refetches everything
+export function WorkspaceSwitcher() {
+  const [location, navigate] = useLocation();
+  const { toast } = useToast();
+  const { data } = useQuery<WorkspaceList>({
+    queryKey: ["/api/workspaces"],
+  });
+
+  const switchMutation = useMutation({
+    mutationFn: async (workspaceId: string): Promise<WorkspaceList> => {
+      const response = await apiRequest("POST", "/api/workspaces/current", { workspaceId });
+      return response.json();
+    },
+    onSuccess: async () => {
+      // Analysis ids don't carry over; addresses do
+      if (location.startsWith("/analysis/")) navigate("/");
+      await queryClient.resetQueries();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Switch Failed", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  if (!data || data.workspaces.length === 0) return null;
+
+  return (
+    <Select
+      value={data.current}
+      onValueChange={(id) => switchMutation.mutate(id)}
+      disabled={data.workspaces.length < 2 || switchMutation.isPending}
+    >
+      <SelectTrigger className="h-9 w-[180px]" aria-label="Workspace" data-testid="select-workspace">
+        <Briefcase className="h-4 w-4 mr-2 shrink-0 text-muted-foreground" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {data.workspaces.map((workspace) => (
+          <SelectItem key={workspace.id} value={workspace.id} data-testid={`option-workspace-${workspace.id}`}>
+            {workspace.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,55 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  roleHasScope,
+  type ApiKeyScope,
+  type AuthStatus,
+  type LoginRequest,
+  type PublicUser,
+} from "@shared/schema";
+
+// Everything cached belonged to the previous session
+async function resetSession() {
+  await queryClient.resetQueries();
+}
+
+export function useAuth() {
+  const { data, isLoading } = useQuery<AuthStatus>({
+    queryKey: ["/api/auth/me"],
+  });
+
+  const user = data?.user ?? null;
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginRequest): Promise<PublicUser> => {
+      const response = await apiRequest("POST", "/api/auth/login", credentials);
+      return response.json();
+    },
+    onSuccess: resetSession,
+  });
+
+  const setupMutation = useMutation({
+    mutationFn: async (credentials: LoginRequest): Promise<PublicUser> => {
+      const response = await apiRequest("POST", "/api/auth/setup", credentials);
+      return response.json();
+    },
+    onSuccess: resetSession,
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    onSuccess: resetSession,
+  });
+
+  return {
+    user,
+    needsSetup: data?.needsSetup ?? false,
+    isLoading,
+    can: (scope: ApiKeyScope) => !!user && roleHasScope(user.role, scope),
+    loginMutation,
+    setupMutation,
+    logoutMutation,
+  };
+}
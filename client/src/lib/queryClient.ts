@@ -7,6 +7,17 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// The server's { error } text from a failed request, without the status prefix
+export function getErrorMessage(error: unknown, fallback = "Something went wrong"): string {
+  if (!(error instanceof Error)) return fallback;
+  const body = error.message.replace(/^\d{3}: /, "");
+  try {
+    return JSON.parse(body).error || fallback;
+  } catch {
+    return body || fallback;
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -29,7 +40,21 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey.join("/") as string, {
+    // A trailing object in the key is sent as the query string:
+    // ["/api/analyses", { limit: 10 }] -> /api/analyses?limit=10
+    const last = queryKey[queryKey.length - 1];
+    const params = last && typeof last === "object" ? (last as Record<string, unknown>) : null;
+    let url = (params ? queryKey.slice(0, -1) : queryKey).join("/");
+    if (params) {
+      const search = new URLSearchParams();
+      for (const [key, value] of Object.entries(params)) {
+        if (value !== undefined && value !== null && value !== "") search.set(key, String(value));
+      }
+      const query = search.toString();
+      if (query) url += `?${query}`;
+    }
+
+    const res = await fetch(url, {
       credentials: "include",
     });
 
@@ -0,0 +1,72 @@
+import { useCallback } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { AnalysisDetail, analysisPath } from "@/components/analysis-detail";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { IpAnalysis, WhoisRecord } from "@shared/schema";
+import { ArrowLeft, SearchX } from "lucide-react";
+
+interface AnalysisResponse {
+  analysis: IpAnalysis;
+  whois: WhoisRecord | null;
+}
+
+interface AnalysisViewProps {
+  params: { id?: string; address?: string };
+}
+
+// Shareable page for one stored analysis: /analysis/:id, or /ip/:address for
+// the latest scan of an address
+export default function AnalysisView({ params }: AnalysisViewProps) {
+  const [, navigate] = useLocation();
+  const queryKey = params.id
+    ? ["/api/analyses", params.id]
+    : ["/api/ip", decodeURIComponent(params.address ?? "")];
+
+  const { data, isLoading, isError } = useQuery<AnalysisResponse>({ queryKey });
+
+  const handleSelect = useCallback((analysis: IpAnalysis) => {
+    navigate(analysisPath(analysis));
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  }, [navigate]);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-6 lg:py-8 space-y-6">
+        <Button variant="ghost" size="sm" asChild>
+          <Link href="/" data-testid="link-back-dashboard">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Dashboard
+          </Link>
+        </Button>
+
+        {isLoading ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <Skeleton className="h-64" />
+            <Skeleton className="h-64" />
+          </div>
+        ) : isError || !data ? (
+          <Card>
+            <CardContent className="pt-6 pb-6">
+              <div className="flex flex-col items-center justify-center py-12 text-center">
+                <div className="p-4 rounded-full bg-muted mb-4">
+                  <SearchX className="h-8 w-8 text-muted-foreground" />
+                </div>
+                <h3 className="text-lg font-semibold mb-2">Analysis Not Found</h3>
+                <p className="text-sm text-muted-foreground max-w-md">
+                  {params.id
+                    ? "This analysis may have been deleted, or the link is incomplete."
+                    : `No stored analysis for ${decodeURIComponent(params.address ?? "")}. Analyze it from the dashboard first.`}
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <AnalysisDetail analysis={data.analysis} whois={data.whois} onSelect={handleSelect} standalone={!!params.id} />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,337 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { Database, Loader2, RefreshCw, Search, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getErrorMessage, queryClient } from "@/lib/queryClient";
+import type { CacheEntryList, CacheFilter, CacheStats, WorkspaceList } from "@shared/schema";
+
+const ANY = "any";
+
+// Ages offered by the "cached more than" filter, in seconds
+const AGE_OPTIONS = [
+  { label: "1 hour ago", value: 3600 },
+  { label: "1 day ago", value: 86400 },
+  { label: "7 days ago", value: 7 * 86400 },
+  { label: "30 days ago", value: 30 * 86400 },
+];
+
+interface ProviderSummary {
+  name: string;
+  cacheTtl: number;
+}
+
+function formatBytes(size: number): string {
+  return size < 1024 ? `${size} B` : `${(size / 1024).toFixed(1)} KB`;
+}
+
+function StatsCard({ stats }: { stats: CacheStats | undefined }) {
+  const lookups = stats ? stats.hits + stats.misses : 0;
+  const items = [
+    { label: "Backend", value: stats ? (stats.backend === stats.active ? stats.active : `${stats.active} (Redis down)`) : "—" },
+    { label: "Hits", value: stats?.hits.toLocaleString() ?? "—" },
+    { label: "Misses", value: stats?.misses.toLocaleString() ?? "—" },
+    { label: "Hit Rate", value: lookups > 0 ? `${Math.round((stats!.hits / lookups) * 100)}%` : "—" },
+  ];
+
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+      {items.map((item) => (
+        <Card key={item.label}>
+          <CardContent className="pt-6">
+            <p className="text-xs uppercase tracking-wide text-muted-foreground">{item.label}</p>
+            <p className="text-2xl font-semibold mt-1 capitalize" data-testid={`text-cache-${item.label.toLowerCase().replace(" ", "-")}`}>
+              {item.value}
+            </p>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
+
+// What is cached, when it expires, and targeted invalidation of it
+export default function CachePage() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [ip, setIp] = useState("");
+  const [cidr, setCidr] = useState("");
+  const [provider, setProvider] = useState(ANY);
+  const [olderThan, setOlderThan] = useState(ANY);
+  const [filter, setFilter] = useState<CacheFilter>({});
+  const hasFilter = Object.values(filter).some((value) => value !== undefined);
+
+  const { data: stats } = useQuery<CacheStats>({
+    queryKey: ["/api/admin/cache"],
+    enabled: can("admin"),
+  });
+
+  const { data: list, isLoading, isFetching, error, refetch } = useQuery<CacheEntryList>({
+    queryKey: ["/api/admin/cache/entries", filter],
+    enabled: can("admin"),
+  });
+
+  const { data: providerList = [] } = useQuery<ProviderSummary[]>({
+    queryKey: ["/api/providers"],
+  });
+
+  const { data: workspaceList } = useQuery<WorkspaceList>({
+    queryKey: ["/api/workspaces"],
+  });
+
+  const workspaceName = (id: string) => workspaceList?.workspaces.find((w) => w.id === id)?.name ?? id;
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/cache"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/cache/entries"] });
+  };
+
+  const invalidateMutation = useMutation({
+    mutationFn: async (data: CacheFilter): Promise<{ removed: number }> => {
+      const response = await apiRequest("POST", "/api/admin/cache/invalidate", data);
+      return response.json();
+    },
+    onSuccess: ({ removed }) => {
+      onChanged();
+      toast({ title: "Cache Invalidated", description: `Removed ${removed} ${removed === 1 ? "entry" : "entries"}.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Invalidation Failed", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/clear-cache");
+    },
+    onSuccess: () => {
+      onChanged();
+      toast({ title: "Cache Cleared", description: "Every cached analysis and provider response was removed." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Clear Failed", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  if (!can("admin")) {
+    return (
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12 text-center text-sm text-muted-foreground">
+        Only admins can manage the cache.
+      </div>
+    );
+  }
+
+  const applyFilter = () => {
+    setFilter({
+      ip: ip.trim() || undefined,
+      cidr: cidr.trim() || undefined,
+      provider: provider === ANY ? undefined : provider,
+      olderThan: olderThan === ANY ? undefined : Number(olderThan),
+    });
+  };
+
+  const cachedProviders = providerList.filter((p) => p.cacheTtl > 0);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-6 lg:py-8 space-y-6">
+        <StatsCard stats={stats} />
+
+        <Card>
+          <CardHeader className="pb-4">
+            <CardTitle className="flex items-center gap-2 text-xl font-semibold">
+              <Database className="h-5 w-5 text-primary" />
+              Cache Entries
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                applyFilter();
+              }}
+              className="flex flex-wrap gap-2"
+            >
+              <Input
+                placeholder="IP address"
+                value={ip}
+                onChange={(e) => setIp(e.target.value)}
+                className="w-[180px] font-mono"
+                data-testid="input-cache-ip"
+              />
+              <Input
+                placeholder="CIDR, e.g. 203.0.113.0/24"
+                value={cidr}
+                onChange={(e) => setCidr(e.target.value)}
+                className="w-[220px] font-mono"
+                data-testid="input-cache-cidr"
+              />
+              <Select value={provider} onValueChange={setProvider}>
+                <SelectTrigger className="w-[160px]" data-testid="select-cache-provider">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any provider</SelectItem>
+                  {cachedProviders.map((p) => (
+                    <SelectItem key={p.name} value={p.name}>{p.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={olderThan} onValueChange={setOlderThan}>
+                <SelectTrigger className="w-[180px]" data-testid="select-cache-age">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Cached any time</SelectItem>
+                  {AGE_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={String(option.value)}>
+                      Cached over {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button type="submit" variant="secondary" data-testid="button-cache-search">
+                <Search className="h-4 w-4 mr-2" />
+                Filter
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => {
+                  queryClient.invalidateQueries({ queryKey: ["/api/admin/cache"] });
+                  refetch();
+                }}
+                aria-label="Refresh"
+                data-testid="button-cache-refresh"
+              >
+                <RefreshCw className={`h-4 w-4 ${isFetching ? "animate-spin" : ""}`} />
+              </Button>
+
+              <div className="flex gap-2 ml-auto">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => invalidateMutation.mutate(filter)}
+                  disabled={!hasFilter || !list?.total || invalidateMutation.isPending}
+                  data-testid="button-cache-invalidate"
+                >
+                  {invalidateMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Invalidate {list?.total ?? 0} Matching
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button type="button" variant="destructive" disabled={clearMutation.isPending} data-testid="button-cache-clear">
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Clear All
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Clear the whole cache?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Cached analyses of every workspace and all provider responses are removed, so the
+                        next lookups call the external APIs again.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => clearMutation.mutate()} data-testid="button-confirm-cache-clear">
+                        Clear Cache
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            </form>
+
+            {error ? (
+              <p className="text-sm text-destructive" data-testid="text-cache-error">{getErrorMessage(error)}</p>
+            ) : isLoading ? (
+              <div className="flex justify-center py-8 text-muted-foreground">
+                <Loader2 className="h-5 w-5 animate-spin" />
+              </div>
+            ) : !list || list.entries.length === 0 ? (
+              <p className="py-8 text-center text-sm text-muted-foreground">
+                {hasFilter ? "No cached entries match these filters." : "Nothing is cached."}
+              </p>
+            ) : (
+              <>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="font-semibold">IP Address</TableHead>
+                      <TableHead className="font-semibold">Type</TableHead>
+                      <TableHead className="font-semibold">Workspace / Provider</TableHead>
+                      <TableHead className="font-semibold">Cached</TableHead>
+                      <TableHead className="font-semibold">Expires</TableHead>
+                      <TableHead className="text-right font-semibold">Size</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {list.entries.map((entry) => (
+                      <TableRow key={entry.key} data-testid={`row-cache-${entry.key}`}>
+                        <TableCell className="font-mono text-sm">{entry.ipAddress ?? entry.key}</TableCell>
+                        <TableCell>
+                          <Badge variant={entry.kind === "analysis" ? "default" : "secondary"} className="capitalize">
+                            {entry.kind}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {entry.workspaceId ? workspaceName(entry.workspaceId) : entry.provider ?? "—"}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground" title={entry.cachedAt}>
+                          {format(new Date(entry.cachedAt), "MMM d, yyyy HH:mm")}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground" title={entry.expiresAt}>
+                          {formatDistanceToNow(new Date(entry.expiresAt), { addSuffix: true })}
+                        </TableCell>
+                        <TableCell className="text-right text-sm text-muted-foreground">{formatBytes(entry.size)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {list.total > list.entries.length && (
+                  <p className="text-xs text-muted-foreground">
+                    Showing the {list.entries.length} most recent of {list.total.toLocaleString()} matching entries.
+                  </p>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
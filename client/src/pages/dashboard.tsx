@@ -1,24 +1,24 @@
 import { useState, useCallback } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { IpInputForm } from "@/components/ip-input-form";
+import { SubnetScan } from "@/components/subnet-scan";
 import { BulkUpload } from "@/components/bulk-upload";
-import { RiskScoreGauge } from "@/components/risk-score-gauge";
-import { DetectionStatusCard } from "@/components/detection-status-card";
-import { IpMap } from "@/components/ip-map";
-import { WhoisAccordion } from "@/components/whois-accordion";
-import { HistoryTable } from "@/components/history-table";
+import { AnalysisDetail } from "@/components/analysis-detail";
+import { HistoryTable, type HistoryFilters } from "@/components/history-table";
 import { QuickStats } from "@/components/quick-stats";
 import { RecentScans } from "@/components/recent-scans";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Card, CardContent } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import {
+  MAX_ANALYSIS_PAGE_SIZE,
+  type AnalysisPage,
   type IpAnalysis,
   type WhoisRecord,
   type ScanStats,
-  type ThreatLevel,
 } from "@shared/schema";
 import { Shield, Search, AlertTriangle } from "lucide-react";
 
@@ -26,15 +26,35 @@ interface AnalyzeResponse {
   analysis: IpAnalysis;
   whois: WhoisRecord | null;
   cached: boolean;
+  stale?: boolean;
+  placeholder?: boolean;
+}
+
+const RECENT_SCANS_LIMIT = 10;
+
+// Every analysis matching the history filters, one page at a time
+async function fetchAllAnalyses(filters: HistoryFilters): Promise<IpAnalysis[]> {
+  const analyses: IpAnalysis[] = [];
+  let cursor: string | null = null;
+  do {
+    const params = new URLSearchParams({ ...filters, limit: String(MAX_ANALYSIS_PAGE_SIZE) });
+    if (cursor) params.set("cursor", cursor);
+    const response = await apiRequest("GET", `/api/analyses?${params}`);
+    const page: AnalysisPage = await response.json();
+    analyses.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return analyses;
 }
 
 export default function Dashboard() {
   const { toast } = useToast();
+  const { can } = useAuth();
   const [selectedAnalysis, setSelectedAnalysis] = useState<IpAnalysis | null>(null);
   const [selectedWhois, setSelectedWhois] = useState<WhoisRecord | null>(null);
 
-  const { data: history = [], isLoading: isLoadingHistory } = useQuery<IpAnalysis[]>({
-    queryKey: ["/api/analyses"],
+  const { data: recent, isLoading: isLoadingRecent } = useQuery<AnalysisPage>({
+    queryKey: ["/api/analyses", { limit: RECENT_SCANS_LIMIT }],
   });
 
   const { data: stats, isLoading: isLoadingStats } = useQuery<ScanStats>({
@@ -51,8 +71,21 @@ export default function Dashboard() {
       setSelectedWhois(data.whois);
       queryClient.invalidateQueries({ queryKey: ["/api/analyses"] });
       queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/whois", data.analysis.ipAddress] });
+      queryClient.invalidateQueries({ queryKey: ["/api/ip", data.analysis.ipAddress] });
 
-      if (data.cached) {
+      if (data.placeholder) {
+        toast({
+          title: "Analysis Incomplete",
+          description: "No data provider answered, so these are placeholder values. Try again shortly.",
+          variant: "destructive",
+        });
+      } else if (data.stale) {
+        toast({
+          title: "Analysis Retrieved",
+          description: "These cached results are out of date; a refresh is running, so analyze again shortly for current results.",
+        });
+      } else if (data.cached) {
         toast({
           title: "Analysis Retrieved",
           description: "Results loaded from cache for faster response.",
@@ -117,7 +150,19 @@ export default function Dashboard() {
     deleteMutation.mutate(id);
   }, [deleteMutation, selectedAnalysis]);
 
-  const handleExport = useCallback((format: "csv" | "json") => {
+  const handleExport = useCallback(async (format: "csv" | "json", filters: HistoryFilters) => {
+    let history: IpAnalysis[];
+    try {
+      history = await fetchAllAnalyses(filters);
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "Failed to load analysis history.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     if (history.length === 0) {
       toast({
         title: "No Data",
@@ -167,33 +212,34 @@ export default function Dashboard() {
       title: "Export Complete",
       description: `Analysis history exported as ${format.toUpperCase()}.`,
     });
-  }, [history, toast]);
+  }, [toast]);
 
   return (
     <div className="min-h-screen bg-background">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 lg:py-8">
         <div className="grid grid-cols-1 lg:grid-cols-[1fr_320px] gap-6 lg:gap-8">
           <div className="space-y-6">
-            <Tabs defaultValue="single" className="w-full">
-              <TabsList className="grid w-full grid-cols-2">
-                <TabsTrigger value="single" data-testid="tab-single-ip">Single IP</TabsTrigger>
-                <TabsTrigger value="bulk" data-testid="tab-bulk-ips">Bulk Upload</TabsTrigger>
-              </TabsList>
-              <TabsContent value="single" className="space-y-6">
-                <IpInputForm
-                  onAnalyze={handleAnalyze}
-                  isLoading={analyzeMutation.isPending}
-                />
-              </TabsContent>
-              <TabsContent value="bulk" className="space-y-6">
-                <BulkUpload
-                  onComplete={() => {
-                    queryClient.invalidateQueries({ queryKey: ["/api/analyses"] });
-                    queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
-                  }}
-                />
-              </TabsContent>
-            </Tabs>
+            {can("analyze") && (
+              <Tabs defaultValue="single" className="w-full">
+                <TabsList className="grid w-full grid-cols-3">
+                  <TabsTrigger value="single" data-testid="tab-single-ip">Single IP</TabsTrigger>
+                  <TabsTrigger value="bulk" data-testid="tab-bulk-ips">Bulk Upload</TabsTrigger>
+                  <TabsTrigger value="subnet" data-testid="tab-subnet">Subnet</TabsTrigger>
+                </TabsList>
+                <TabsContent value="single" className="space-y-6">
+                  <IpInputForm
+                    onAnalyze={handleAnalyze}
+                    isLoading={analyzeMutation.isPending}
+                  />
+                </TabsContent>
+                <TabsContent value="bulk" className="space-y-6">
+                  <BulkUpload onView={handleViewAnalysis} />
+                </TabsContent>
+                <TabsContent value="subnet" className="space-y-6">
+                  <SubnetScan onAnalyze={handleRescan} />
+                </TabsContent>
+              </Tabs>
+            )}
 
             {analyzeMutation.isPending && (
               <Card>
@@ -225,9 +271,9 @@ export default function Dashboard() {
                       Ready to Analyze
                     </h3>
                     <p className="text-sm text-muted-foreground max-w-md">
-                      Enter an IP address above to detect VPNs, proxies, and other
-                      masked connections. Get comprehensive threat analysis and
-                      WHOIS records.
+                      {can("analyze")
+                        ? "Enter an IP address above to detect VPNs, proxies, and other masked connections. Get comprehensive threat analysis and WHOIS records."
+                        : "Select a scan from the history below to review its threat analysis and WHOIS records."}
                     </p>
                   </div>
                 </CardContent>
@@ -235,36 +281,17 @@ export default function Dashboard() {
             )}
 
             {selectedAnalysis && !analyzeMutation.isPending && (
-              <>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                  <RiskScoreGauge
-                    score={selectedAnalysis.riskScore}
-                    threatLevel={selectedAnalysis.threatLevel as ThreatLevel}
-                    isVpn={selectedAnalysis.isVpn}
-                    isProxy={selectedAnalysis.isProxy}
-                    isTor={selectedAnalysis.isTor}
-                  />
-                  <DetectionStatusCard analysis={selectedAnalysis} />
-                </div>
-
-                <IpMap
-                  latitude={selectedAnalysis.latitude}
-                  longitude={selectedAnalysis.longitude}
-                  city={selectedAnalysis.city}
-                  country={selectedAnalysis.country}
-                  ipAddress={selectedAnalysis.ipAddress}
-                />
-
-                <WhoisAccordion whois={selectedWhois} />
-              </>
+              <AnalysisDetail
+                analysis={selectedAnalysis}
+                whois={selectedWhois}
+                onSelect={handleViewAnalysis}
+              />
             )}
 
             <HistoryTable
-              analyses={history}
-              isLoading={isLoadingHistory}
               onView={handleViewAnalysis}
-              onRescan={handleRescan}
-              onDelete={handleDelete}
+              onRescan={can("analyze") ? handleRescan : undefined}
+              onDelete={can("admin") ? handleDelete : undefined}
               onExport={handleExport}
             />
           </div>
@@ -272,8 +299,8 @@ export default function Dashboard() {
           <aside className="space-y-6">
             <QuickStats stats={stats || null} isLoading={isLoadingStats} />
             <RecentScans
-              analyses={history}
-              isLoading={isLoadingHistory}
+              analyses={recent?.items ?? []}
+              isLoading={isLoadingRecent}
               onSelect={handleViewAnalysis}
             />
           </aside>
@@ -0,0 +1,100 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2, Shield } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useAuth } from "@/hooks/use-auth";
+import { getErrorMessage } from "@/lib/queryClient";
+import { loginRequestSchema, setupRequestSchema, type LoginRequest } from "@shared/schema";
+
+// Sign-in form, or the first admin account while no accounts exist
+export default function LoginPage() {
+  const { needsSetup, loginMutation, setupMutation } = useAuth();
+  const mutation = needsSetup ? setupMutation : loginMutation;
+
+  const form = useForm<LoginRequest>({
+    resolver: zodResolver(needsSetup ? setupRequestSchema : loginRequestSchema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  const onSubmit = (data: LoginRequest) => {
+    mutation.mutate(data, {
+      onError: (error) => form.setError("root", { message: getErrorMessage(error) }),
+    });
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-background px-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="space-y-3">
+          <div className="flex items-center justify-center w-10 h-10 rounded-md bg-primary">
+            <Shield className="h-5 w-5 text-primary-foreground" />
+          </div>
+          <CardTitle className="text-xl font-semibold">
+            {needsSetup ? "Create Admin Account" : "Sign In"}
+          </CardTitle>
+          <CardDescription>
+            {needsSetup
+              ? "No accounts exist yet. This account can add analysts and viewers afterwards."
+              : "Proxy & VPN Detector"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="username"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Username</FormLabel>
+                    <FormControl>
+                      <Input {...field} autoComplete="username" autoFocus data-testid="input-username" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Password</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        type="password"
+                        autoComplete={needsSetup ? "new-password" : "current-password"}
+                        data-testid="input-password"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {form.formState.errors.root && (
+                <p className="text-sm font-medium text-destructive" data-testid="text-login-error">
+                  {form.formState.errors.root.message}
+                </p>
+              )}
+              <Button type="submit" className="w-full" disabled={mutation.isPending} data-testid="button-login">
+                {mutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {needsSetup ? "Create Account" : "Sign In"}
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
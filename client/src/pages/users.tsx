@@ -0,0 +1,550 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { format } from "date-fns";
+import { Briefcase, KeyRound, Loader2, Pencil, Plus, Trash2, UserPlus, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getErrorMessage, queryClient } from "@/lib/queryClient";
+import {
+  USER_ROLES,
+  createUserRequestSchema,
+  getUserRoleLabel,
+  type CreateUserRequest,
+  type PublicUser,
+  type UpdateUserRequest,
+  type UserRole,
+  type Workspace,
+  type WorkspaceList,
+  type WorkspaceRequest,
+} from "@shared/schema";
+
+const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  viewer: "Browse analyses and history",
+  analyst: "Also run analyses, bulk uploads and subnet scans",
+  admin: "Also delete records, clear the cache and manage users; sees every workspace",
+};
+
+function formatDate(value: Date | string | null): string {
+  return value ? format(new Date(value), "MMM d, yyyy HH:mm") : "Never";
+}
+
+function RoleSelect({ value, onChange, disabled, testId }: {
+  value: UserRole;
+  onChange: (role: UserRole) => void;
+  disabled?: boolean;
+  testId: string;
+}) {
+  return (
+    <Select value={value} onValueChange={(v) => onChange(v as UserRole)} disabled={disabled}>
+      <SelectTrigger className="h-9 w-[130px]" data-testid={testId}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {USER_ROLES.map((role) => (
+          <SelectItem key={role} value={role}>{getUserRoleLabel(role)}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+// Which workspaces a non-admin user can open
+function WorkspacePicker({ user, workspaces, onChange }: {
+  user: PublicUser;
+  workspaces: Workspace[];
+  onChange: (workspaceIds: string[]) => void;
+}) {
+  if (user.role === "admin") {
+    return <span className="text-sm text-muted-foreground">All</span>;
+  }
+  const names = workspaces.filter((w) => user.workspaceIds.includes(w.id)).map((w) => w.name);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="h-9 max-w-[200px] justify-start" data-testid={`button-workspaces-${user.id}`}>
+          <span className="truncate">{names.length > 0 ? names.join(", ") : "None"}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-56 space-y-2">
+        {workspaces.map((workspace) => (
+          <Label key={workspace.id} className="flex items-center gap-2 font-normal">
+            <Checkbox
+              checked={user.workspaceIds.includes(workspace.id)}
+              onCheckedChange={(checked) => onChange(
+                checked === true
+                  ? [...user.workspaceIds, workspace.id]
+                  : user.workspaceIds.filter((id) => id !== workspace.id),
+              )}
+              data-testid={`checkbox-workspace-${user.id}-${workspace.id}`}
+            />
+            {workspace.name}
+          </Label>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function WorkspacesCard({ list, users }: { list: WorkspaceList | undefined; users: PublicUser[] }) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [renaming, setRenaming] = useState<Workspace | null>(null);
+  const [newName, setNewName] = useState("");
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: getErrorMessage(error), variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: WorkspaceRequest): Promise<Workspace> => {
+      const response = await apiRequest("POST", "/api/admin/workspaces", data);
+      return response.json();
+    },
+    onSuccess: (workspace) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/workspaces"] });
+      setName("");
+      toast({ title: "Workspace Created", description: `Switch to ${workspace.name} from the header.` });
+    },
+    onError: onError("Create Failed"),
+  });
+
+  const renameMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: WorkspaceRequest }): Promise<Workspace> => {
+      const response = await apiRequest("PATCH", `/api/admin/workspaces/${id}`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/workspaces"] });
+      setRenaming(null);
+    },
+    onError: onError("Rename Failed"),
+  });
+
+  const memberCount = (workspace: Workspace) =>
+    users.filter((u) => u.role !== "admin" && u.workspaceIds.includes(workspace.id)).length;
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center gap-2 text-xl font-semibold">
+          <Briefcase className="h-5 w-5 text-primary" />
+          Workspaces
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            createMutation.mutate({ name });
+          }}
+          className="flex gap-2"
+        >
+          <Input
+            placeholder="New workspace name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            data-testid="input-new-workspace"
+          />
+          <Button type="submit" disabled={!name.trim() || createMutation.isPending} data-testid="button-add-workspace">
+            {createMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+            Create
+          </Button>
+        </form>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="font-semibold">Name</TableHead>
+              <TableHead className="font-semibold">Members</TableHead>
+              <TableHead className="font-semibold">Created</TableHead>
+              <TableHead className="text-right font-semibold">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {list?.workspaces.map((workspace) => (
+              <TableRow key={workspace.id} data-testid={`row-workspace-${workspace.id}`}>
+                <TableCell className="font-medium">
+                  {workspace.name}
+                  {workspace.id === list.current && <Badge variant="secondary" className="ml-2 text-xs">Current</Badge>}
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground">{memberCount(workspace)} + admins</TableCell>
+                <TableCell className="text-sm text-muted-foreground">{formatDate(workspace.createdAt)}</TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => {
+                      setNewName(workspace.name);
+                      setRenaming(workspace);
+                    }}
+                    aria-label={`Rename ${workspace.name}`}
+                    data-testid={`button-rename-workspace-${workspace.id}`}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <Dialog open={!!renaming} onOpenChange={(open) => !open && setRenaming(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename {renaming?.name}</DialogTitle>
+          </DialogHeader>
+          <Input value={newName} onChange={(e) => setNewName(e.target.value)} data-testid="input-rename-workspace" />
+          <DialogFooter>
+            <Button
+              onClick={() => renaming && renameMutation.mutate({ id: renaming.id, data: { name: newName } })}
+              disabled={!newName.trim() || renameMutation.isPending}
+              data-testid="button-confirm-rename-workspace"
+            >
+              Rename
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+function describeUpdate(user: PublicUser, changes: UpdateUserRequest): { title: string; description: string } {
+  if (changes.password) {
+    return { title: "Password Reset", description: `${user.username} can sign in with the new password.` };
+  }
+  if (changes.workspaceIds) {
+    return { title: "Workspaces Updated", description: `${user.username} can open ${user.workspaceIds.length} workspace(s).` };
+  }
+  return { title: "Role Updated", description: `${user.username} is now ${getUserRoleLabel(user.role)}.` };
+}
+
+function AddUserForm() {
+  const { toast } = useToast();
+  const form = useForm<CreateUserRequest>({
+    resolver: zodResolver(createUserRequestSchema),
+    defaultValues: { username: "", password: "", role: "viewer" },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: CreateUserRequest): Promise<PublicUser> => {
+      const response = await apiRequest("POST", "/api/admin/users", data);
+      return response.json();
+    },
+    onSuccess: (user) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      form.reset();
+      toast({ title: "User Added", description: `${user.username} can now sign in.` });
+    },
+    onError: (error: Error) => form.setError("root", { message: getErrorMessage(error) }),
+  });
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center gap-2 text-xl font-semibold">
+          <UserPlus className="h-5 w-5 text-primary" />
+          Add User
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((data) => createMutation.mutate(data))}
+            className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto_auto] gap-4 items-start"
+          >
+            <FormField
+              control={form.control}
+              name="username"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Username</FormLabel>
+                  <FormControl>
+                    <Input {...field} autoComplete="off" data-testid="input-new-username" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="password"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Password</FormLabel>
+                  <FormControl>
+                    <Input {...field} type="password" autoComplete="new-password" data-testid="input-new-password" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="role"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Role</FormLabel>
+                  <RoleSelect value={field.value} onChange={field.onChange} testId="select-new-role" />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" className="md:mt-8" disabled={createMutation.isPending} data-testid="button-add-user">
+              {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Add
+            </Button>
+          </form>
+          {form.formState.errors.root && (
+            <p className="mt-2 text-sm font-medium text-destructive">{form.formState.errors.root.message}</p>
+          )}
+        </Form>
+        <p className="mt-4 text-xs text-muted-foreground">
+          New users join the current workspace. {USER_ROLES.map((role) => `${getUserRoleLabel(role)}: ${ROLE_DESCRIPTIONS[role]}`).join(" · ")}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function UsersPage() {
+  const { toast } = useToast();
+  const { user: currentUser, can } = useAuth();
+  const [passwordFor, setPasswordFor] = useState<PublicUser | null>(null);
+  const [newPassword, setNewPassword] = useState("");
+
+  const { data: users = [], isLoading } = useQuery<PublicUser[]>({
+    queryKey: ["/api/admin/users"],
+    enabled: can("admin"),
+  });
+
+  const { data: workspaceList } = useQuery<WorkspaceList>({
+    queryKey: ["/api/workspaces"],
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, changes }: { id: string; changes: UpdateUserRequest }): Promise<PublicUser> => {
+      const response = await apiRequest("PATCH", `/api/admin/users/${id}`, changes);
+      return response.json();
+    },
+    onSuccess: (user, { changes }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      setPasswordFor(null);
+      toast(describeUpdate(user, changes));
+    },
+    onError: (error: Error) => {
+      toast({ title: "Update Failed", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/admin/users/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      toast({ title: "User Deleted", description: "The account can no longer sign in." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Delete Failed", description: getErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  if (!can("admin")) {
+    return (
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12 text-center text-sm text-muted-foreground">
+        Only admins can manage users.
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-6 lg:py-8 space-y-6">
+        <AddUserForm />
+
+        <Card>
+          <CardHeader className="pb-4">
+            <CardTitle className="flex items-center gap-2 text-xl font-semibold">
+              <Users className="h-5 w-5 text-primary" />
+              Users
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex items-center justify-center h-20 text-muted-foreground">
+                <Loader2 className="h-5 w-5 animate-spin" />
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="font-semibold">Username</TableHead>
+                    <TableHead className="font-semibold">Role</TableHead>
+                    <TableHead className="font-semibold">Workspaces</TableHead>
+                    <TableHead className="font-semibold">Created</TableHead>
+                    <TableHead className="font-semibold">Last Sign-in</TableHead>
+                    <TableHead className="text-right font-semibold">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {users.map((user) => {
+                    const isSelf = user.id === currentUser?.id;
+                    return (
+                      <TableRow key={user.id} data-testid={`row-user-${user.id}`}>
+                        <TableCell className="font-medium">
+                          {user.username}
+                          {isSelf && <Badge variant="secondary" className="ml-2 text-xs">You</Badge>}
+                        </TableCell>
+                        <TableCell>
+                          <RoleSelect
+                            value={user.role}
+                            onChange={(role) => updateMutation.mutate({ id: user.id, changes: { role } })}
+                            disabled={isSelf}
+                            testId={`select-role-${user.id}`}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <WorkspacePicker
+                            user={user}
+                            workspaces={workspaceList?.workspaces ?? []}
+                            onChange={(workspaceIds) => updateMutation.mutate({ id: user.id, changes: { workspaceIds } })}
+                          />
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">{formatDate(user.createdAt)}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground">{formatDate(user.lastLoginAt)}</TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-1">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => {
+                                setNewPassword("");
+                                setPasswordFor(user);
+                              }}
+                              aria-label={`Reset password for ${user.username}`}
+                              data-testid={`button-reset-password-${user.id}`}
+                            >
+                              <KeyRound className="h-4 w-4" />
+                            </Button>
+                            {!isSelf && (
+                              <AlertDialog>
+                                <AlertDialogTrigger asChild>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    aria-label={`Delete ${user.username}`}
+                                    data-testid={`button-delete-user-${user.id}`}
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                </AlertDialogTrigger>
+                                <AlertDialogContent>
+                                  <AlertDialogHeader>
+                                    <AlertDialogTitle>Delete {user.username}?</AlertDialogTitle>
+                                    <AlertDialogDescription>
+                                      They are signed out immediately and can't sign in again.
+                                    </AlertDialogDescription>
+                                  </AlertDialogHeader>
+                                  <AlertDialogFooter>
+                                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                    <AlertDialogAction onClick={() => deleteMutation.mutate(user.id)}>
+                                      Delete
+                                    </AlertDialogAction>
+                                  </AlertDialogFooter>
+                                </AlertDialogContent>
+                              </AlertDialog>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <WorkspacesCard list={workspaceList} users={users} />
+      </div>
+
+      <Dialog open={!!passwordFor} onOpenChange={(open) => !open && setPasswordFor(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reset password for {passwordFor?.username}</DialogTitle>
+          </DialogHeader>
+          <Input
+            type="password"
+            autoComplete="new-password"
+            placeholder="New password (at least 8 characters)"
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            data-testid="input-reset-password"
+          />
+          <DialogFooter>
+            <Button
+              onClick={() => passwordFor && updateMutation.mutate({ id: passwordFor.id, changes: { password: newPassword } })}
+              disabled={newPassword.length < 8 || updateMutation.isPending}
+              data-testid="button-confirm-reset-password"
+            >
+              Reset Password
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
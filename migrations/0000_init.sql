@@ -0,0 +1,62 @@
+CREATE TABLE "ip_analyses" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"ip_address" text NOT NULL,
+	"ip_version" text NOT NULL,
+	"address_class" text DEFAULT 'public' NOT NULL,
+	"risk_score" integer NOT NULL,
+	"is_vpn" boolean NOT NULL,
+	"is_proxy" boolean NOT NULL,
+	"is_tor" boolean NOT NULL,
+	"is_datacenter" boolean NOT NULL,
+	"threat_level" text NOT NULL,
+	"vpn_provider" text,
+	"isp" text,
+	"organization" text,
+	"asn" text,
+	"country" text,
+	"country_code" text,
+	"city" text,
+	"region" text,
+	"latitude" real,
+	"longitude" real,
+	"timezone" text,
+	"signals" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"policy_version" integer,
+	"analyzed_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "tor_exit_nodes" (
+	"ip_address" text PRIMARY KEY NOT NULL,
+	"fingerprint" text,
+	"first_seen" timestamp NOT NULL,
+	"last_seen" timestamp NOT NULL,
+	"imported_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "whois_records" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"ip_address" text NOT NULL,
+	"domain" text,
+	"registrar" text,
+	"registrant_name" text,
+	"registrant_org" text,
+	"registrant_country" text,
+	"created_date" text,
+	"updated_date" text,
+	"expires_date" text,
+	"name_servers" text[],
+	"net_range" text,
+	"net_name" text,
+	"net_handle" text,
+	"origin_as" text,
+	"abuse_contact" text,
+	"tech_contact" text,
+	"raw_text" text,
+	"version" integer DEFAULT 1 NOT NULL,
+	"fetched_at" timestamp NOT NULL,
+	"last_seen_at" timestamp
+);
+--> statement-breakpoint
+CREATE INDEX "ip_analyses_ip_address_idx" ON "ip_analyses" USING btree ("ip_address","analyzed_at");--> statement-breakpoint
+CREATE INDEX "whois_records_ip_address_idx" ON "whois_records" USING btree ("ip_address","fetched_at");--> statement-breakpoint
+CREATE INDEX "whois_records_net_handle_idx" ON "whois_records" USING btree ("net_handle","fetched_at");
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "api_keys" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"prefix" text NOT NULL,
+	"key_hash" text NOT NULL,
+	"scopes" text[] NOT NULL,
+	"daily_quota" integer,
+	"request_count" integer DEFAULT 0 NOT NULL,
+	"usage_today" integer DEFAULT 0 NOT NULL,
+	"usage_date" text,
+	"last_used_at" timestamp,
+	"created_at" timestamp NOT NULL,
+	"revoked_at" timestamp,
+	CONSTRAINT "api_keys_key_hash_unique" UNIQUE("key_hash")
+);
@@ -0,0 +1,17 @@
+CREATE TABLE "workspaces" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"created_at" timestamp NOT NULL,
+	CONSTRAINT "workspaces_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+DROP INDEX "ip_analyses_ip_address_idx";--> statement-breakpoint
+DROP INDEX "whois_records_ip_address_idx";--> statement-breakpoint
+DROP INDEX "whois_records_net_handle_idx";--> statement-breakpoint
+ALTER TABLE "api_keys" ADD COLUMN "workspace_id" varchar DEFAULT 'default' NOT NULL;--> statement-breakpoint
+ALTER TABLE "ip_analyses" ADD COLUMN "workspace_id" varchar DEFAULT 'default' NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "workspace_ids" text[] DEFAULT '{"default"}' NOT NULL;--> statement-breakpoint
+ALTER TABLE "whois_records" ADD COLUMN "workspace_id" varchar DEFAULT 'default' NOT NULL;--> statement-breakpoint
+CREATE INDEX "ip_analyses_ip_address_idx" ON "ip_analyses" USING btree ("workspace_id","ip_address","analyzed_at");--> statement-breakpoint
+CREATE INDEX "whois_records_ip_address_idx" ON "whois_records" USING btree ("workspace_id","ip_address","fetched_at");--> statement-breakpoint
+CREATE INDEX "whois_records_net_handle_idx" ON "whois_records" USING btree ("workspace_id","net_handle","fetched_at");
\ No newline at end of file
@@ -0,0 +1,4 @@
+CREATE TABLE "scoring_policies" (
+	"version" integer PRIMARY KEY NOT NULL,
+	"policy" jsonb NOT NULL
+);
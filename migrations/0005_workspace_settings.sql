@@ -0,0 +1,15 @@
+CREATE TABLE "range_imports" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"workspace_id" varchar NOT NULL,
+	"format" text NOT NULL,
+	"content" text NOT NULL,
+	"provider" text,
+	"category" text,
+	"imported_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "scoring_policies" ADD COLUMN "workspace_id" varchar DEFAULT 'default' NOT NULL;--> statement-breakpoint
+ALTER TABLE "scoring_policies" DROP CONSTRAINT "scoring_policies_pkey";--> statement-breakpoint
+ALTER TABLE "scoring_policies" ADD CONSTRAINT "scoring_policies_workspace_id_version_pk" PRIMARY KEY("workspace_id","version");--> statement-breakpoint
+ALTER TABLE "workspaces" ADD COLUMN "disabled_providers" text[] DEFAULT '{}' NOT NULL;--> statement-breakpoint
+CREATE INDEX "range_imports_workspace_idx" ON "range_imports" USING btree ("workspace_id","imported_at");
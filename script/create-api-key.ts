@@ -0,0 +1,46 @@
+// Creates an API key directly in the configured storage, e.g. for a service
+// deployed before anyone has logged in to the dashboard:
+//   npx tsx script/create-api-key.ts --name ops --scopes admin
+//   npx tsx script/create-api-key.ts --name billing-svc --scopes read,analyze --quota 5000
+//   npx tsx script/create-api-key.ts --name fraud-svc --scopes read --workspace <workspace id>
+// Uses the same STORAGE_BACKEND / DATABASE_URL / MONGODB_URL / MONGODB_URI as the server;
+// in-memory storage lives in the server process, so it needs the API instead.
+import { parseArgs } from "util";
+import { DEFAULT_WORKSPACE_ID, createApiKeyRequestSchema } from "../shared/schema";
+import { storage, STORAGE_BACKEND } from "../server/storage";
+import { issueApiKey } from "../server/api-keys";
+
+if (STORAGE_BACKEND === "memory") {
+  console.error("In-memory storage: create keys with POST /api/admin/api-keys on the running server");
+  process.exit(1);
+}
+
+const { values } = parseArgs({
+  options: {
+    name: { type: "string" },
+    scopes: { type: "string", default: "read" },
+    quota: { type: "string" },
+    workspace: { type: "string", default: DEFAULT_WORKSPACE_ID },
+  },
+});
+
+const parsed = createApiKeyRequestSchema.safeParse({
+  name: values.name,
+  scopes: values.scopes!.split(",").map((s) => s.trim()).filter(Boolean),
+  dailyQuota: values.quota ? Number(values.quota) : null,
+});
+if (!parsed.success) {
+  console.error(parsed.error.errors.map((e) => `${e.path.join(".") || "args"}: ${e.message}`).join("\n"));
+  process.exit(1);
+}
+
+await storage.connect();
+const workspace = await storage.getWorkspace(values.workspace!);
+if (!workspace) {
+  console.error(`Unknown workspace "${values.workspace}"`);
+  process.exit(1);
+}
+const { apiKey, key } = await issueApiKey(workspace.id, parsed.data);
+console.log(`✓ Created API key "${apiKey.name}" (${apiKey.scopes.join(", ")}) in workspace "${workspace.name}", id ${apiKey.id}`);
+console.log(key);
+process.exit(0);
@@ -0,0 +1,80 @@
+// Minimal RDAP server for exercising the RDAP client without network access:
+//   npx tsx script/rdap-stub.ts
+//   RDAP_BOOTSTRAP_URL=http://localhost:4010 npm run dev
+// It acts as both the IANA bootstrap registry (every block points back here)
+// and an RIR that registers each address inside a made-up /24 (or /112).
+import { createServer } from "http";
+import { canonicalizeIp, formatIp } from "../shared/ip";
+import { parseCidr } from "../server/cidr";
+
+const PORT = parseInt(process.env.RDAP_STUB_PORT || "4010", 10);
+const BASE_URL = `http://localhost:${PORT}/`;
+
+function vcard(fn: string, kind: string, email?: string) {
+  return [
+    "vcard",
+    [
+      ["version", {}, "text", "4.0"],
+      ["fn", {}, "text", fn],
+      ["kind", {}, "text", kind],
+      ...(email ? [["email", {}, "text", email]] : []),
+    ],
+  ];
+}
+
+function network(ip: string) {
+  const isV4 = !ip.includes(":");
+  const length = isV4 ? 24 : 112;
+  const cidr = parseCidr(`${ip}/${length}`)!;
+  const prefix = formatIp(cidr);
+  const end = formatIp({ family: cidr.family, value: cidr.value + (isV4 ? BigInt(0xff) : BigInt(0xffff)) });
+  return {
+    objectClassName: "ip network",
+    handle: `NET-STUB-${prefix.replace(/[.:]/g, "-")}`,
+    startAddress: prefix,
+    endAddress: end,
+    ipVersion: isV4 ? "v4" : "v6",
+    name: "STUB-NET",
+    country: "US",
+    port43: "whois.example.net",
+    cidr0_cidrs: [isV4 ? { v4prefix: prefix, length } : { v6prefix: prefix, length }],
+    arin_originas0_originautnums: [64500],
+    events: [
+      { eventAction: "registration", eventDate: "2015-03-02T00:00:00Z" },
+      { eventAction: "last changed", eventDate: "2024-11-18T00:00:00Z" },
+    ],
+    entities: [
+      {
+        handle: "STUB-ORG",
+        roles: ["registrant"],
+        vcardArray: vcard("Stub Hosting LLC", "org"),
+        entities: [
+          { handle: "ABUSE-STUB", roles: ["abuse"], vcardArray: vcard("Abuse Desk", "group", "abuse@stub.example") },
+          { handle: "NOC-STUB", roles: ["technical"], vcardArray: vcard("Network Operations", "group", "noc@stub.example") },
+        ],
+      },
+    ],
+  };
+}
+
+createServer((req, res) => {
+  const url = new URL(req.url || "/", BASE_URL);
+  const send = (status: number, body: unknown) => {
+    res.writeHead(status, { "Content-Type": "application/rdap+json" });
+    res.end(JSON.stringify(body));
+  };
+
+  if (url.pathname === "/ipv4.json" || url.pathname === "/ipv6.json") {
+    const all = url.pathname === "/ipv4.json" ? "0.0.0.0/0" : "::/0";
+    return send(200, { version: "1.0", services: [[[all], [BASE_URL]]] });
+  }
+
+  const match = url.pathname.match(/^\/ip\/(.+)$/);
+  const ip = match ? canonicalizeIp(decodeURIComponent(match[1])) : null;
+  if (!ip) {
+    return send(404, { errorCode: 404, title: "Not Found" });
+  }
+  send(200, network(ip));
+}).listen(PORT, () => {
+  console.log(`RDAP stub listening on ${BASE_URL}`);
+});
@@ -0,0 +1,285 @@
+import {
+  getIpVersion,
+  type AddressClass,
+  getThreatLevelFromScore,
+  type InsertIpAnalysis,
+  type InsertWhoisRecord,
+  type RiskSignal,
+  type ScoringPolicy,
+} from "@shared/schema";
+import { providers, type ProviderResult } from "./providers";
+import { getScoringPolicy, scoreSignals } from "./scoring";
+import { getRangeLookup, type RangeLookup } from "./ranges";
+import { storage } from "./storage";
+import { classifyAddress } from "./bogons";
+
+// List of known VPN/proxy providers
+const VPN_PROVIDERS = [
+  "NordVPN", "ExpressVPN", "Surfshark", "ProtonVPN", "CyberGhost",
+  "IPVanish", "Private Internet Access", "PIA", "Windscribe", "TunnelBear",
+  "Turbo VPN", "TurboVPN", "HotspotShield", "VyprVPN", "StrongVPN", "Mullvad", "turbo",
+  "IVPN", "PureVPN", "SaferVPN", "VPN Gate", "Astrill", "Bitdefender VPN",
+  "Avast VPN", "AVG VPN", "McAfee VPN", "Norton VPN", "Perfect Privacy",
+  "Freedome", "Hotspot Shield", "Hide My Ass", "HMA", "VPNBook",
+  "VPNGate", "Psiphon", "UltraVPN", "VPNArea", "ibVPN", "SlickVPN",
+  "CyberVPN", "VPN.com", "FastVPN", "VPNSecure", "BTGuard",
+  "SecureVPN", "VPNUnlimited", "IronSocket", "ZenMate", "VPNMaster", "KeepSolid",
+  "Betternet", "Touch VPN", "Thunder VPN", "Snap VPN", "Free VPN", "ProxyMaster",
+  "VPN Master", "Unblock", "Browsec", "ZenVPN", "UFO VPN"
+];
+
+// Hosting/datacenter providers
+const HOSTING_PROVIDERS = [
+  "AWS", "Azure", "Google Cloud", "DigitalOcean", "Linode", "Vultr",
+  "Zenlayer", "Softlayer", "Equinix", "Rackspace", "OVH", "Hetzner",
+  "Scaleway", "Packet", "UpCloud", "Brightbox", "Joyent", "ProfitBricks",
+  "Heroku", "Openshift", "EC2", "Compute Engine", "App Service"
+];
+
+// Hosting providers commonly used by VPN services
+const VPN_HOSTING_PROVIDERS = [
+  "Zenlayer", "Softlayer", "Equinix", "Packet", "Vultr", "DigitalOcean", "OVH",
+  "Datacamp", "Contabo", "M247", "BudgetVM", "Nocix", "Ryukish", "VPS.ag",
+  "ColoCrossing", "Leaseweb", "Cogent", "Voxility", "VHoster",
+  "The Constant Company", "ConstantCompany", "Constant Company", "AS20473",
+  "Hop One Networks", "HopOne", "Hop One", "AS397391", "Astec", "Telia Company",
+  "DigitalOcean", "Vultr", "Linode", "Akamai", "Fastly"
+];
+
+// First defined value of a field across provider results, in registry priority order
+function pick<T>(values: (T | undefined | null)[]): T | undefined {
+  return values.find((v): v is T => v !== undefined && v !== null && v !== "");
+}
+
+// The settings of the workspace an address is analyzed for
+interface AnalysisSettings {
+  policy: ScoringPolicy;
+  lookupRange: RangeLookup;
+  disabledProviders: string[];
+}
+
+async function getAnalysisSettings(workspaceId: string): Promise<AnalysisSettings> {
+  const [policy, lookupRange, workspace] = await Promise.all([
+    getScoringPolicy(workspaceId),
+    getRangeLookup(workspaceId),
+    storage.getWorkspace(workspaceId),
+  ]);
+  return { policy, lookupRange, disabledProviders: workspace?.disabledProviders ?? [] };
+}
+
+// Generate analysis from normalized provider results
+export function generateRealAnalysis(ip: string, results: ProviderResult[], settings: AnalysisSettings): InsertIpAnalysis {
+  const ipVersion = getIpVersion(ip) || "IPv4";
+
+  const geo = results.flatMap((r) => (r.geo ? [r.geo] : []));
+  const network = results.flatMap((r) => (r.network ? [r.network] : []));
+
+  const country = pick(geo.map((g) => g.country)) || "Unknown";
+  const countryCode = pick(geo.map((g) => g.countryCode)) || country;
+  const city = pick(geo.map((g) => g.city)) || "Unknown";
+  const region = pick(geo.map((g) => g.region)) || "Unknown";
+  const latitude = pick(geo.map((g) => g.latitude)) ?? 0;
+  const longitude = pick(geo.map((g) => g.longitude)) ?? 0;
+  const timezone = pick(geo.map((g) => g.timezone)) || "UTC";
+  const organization = pick(network.map((n) => n.organization)) || "Unknown";
+  const asn = pick(network.map((n) => n.asn)) || "Unknown";
+  const isp = pick(network.map((n) => n.isp)) || "Unknown";
+
+  // VPN/Proxy detection from multiple sources
+  const orgLower = organization.toLowerCase();
+  const ispLower = isp.toLowerCase();
+  const matches = (name: string) => orgLower.includes(name.toLowerCase()) || ispLower.includes(name.toLowerCase());
+
+  // Range matches and the hosting name lists are separate signals; the "max"
+  // mode lets a VPN-hosting match outrank a datacenter range for the same network
+  const rangeMatch = settings.lookupRange(ip, asn);
+
+  // Detect which VPN provider was matched
+  const matchedVpnProvider = VPN_PROVIDERS.find(matches);
+  const matchedVpnHosting = VPN_HOSTING_PROVIDERS.find(matches);
+  const matchedHosting = HOSTING_PROVIDERS.find(matches);
+  const rangeVpnProvider = rangeMatch?.category === "vpn" ? rangeMatch.provider : undefined;
+  const vpnProvider = matchedVpnProvider || rangeVpnProvider || matchedVpnHosting || null;
+
+  // Every piece of evidence becomes a signal so the final score can be explained
+  const { policy } = settings;
+  const { weights } = policy;
+  const signals: RiskSignal[] = [];
+  const add = (source: string, signal: string, weight: number, mode: RiskSignal["mode"], value: RiskSignal["value"], match: string | null = null) => {
+    signals.push({ source, signal, weight, mode, value, match });
+  };
+
+  if (rangeMatch) add("range-db", rangeMatch.category, weights[rangeMatch.category], "max", rangeMatch.range, rangeMatch.provider);
+  if (matchedVpnProvider) add("provider-list", "vpn", weights.vpn, "max", organization, matchedVpnProvider);
+  if (matchedVpnHosting) add("vpn-hosting-list", "vpn", weights.vpn, "max", organization, matchedVpnHosting);
+  if (orgLower.includes("vpn") || ispLower.includes("vpn")) add("org-keyword", "vpn", weights.vpn, "max", organization, "vpn");
+  if (ispLower.includes("proxy")) add("org-keyword", "proxy", weights.proxy, "max", isp, "proxy");
+  if (matchedHosting) add("hosting-list", "datacenter", weights.datacenter, "max", organization, matchedHosting);
+  for (const keyword of ["datacenter", "hosting"]) {
+    if (orgLower.includes(keyword)) add("org-keyword", "datacenter", weights.datacenter, "max", organization, keyword);
+  }
+
+  for (const result of results) {
+    if (result.isVpn) add(result.provider, "vpn", weights.vpn, "max", true);
+    if (result.isProxy) add(result.provider, "proxy", weights.proxy, "max", result.abuse?.usageType ?? true);
+    if (result.isTor) add(result.provider, "tor", weights.tor, "max", true);
+    if (result.abuse?.confidenceScore) {
+      add(result.provider, "abuse-confidence", Math.round(result.abuse.confidenceScore * weights.abuseConfidenceFactor), "max", result.abuse.confidenceScore);
+    }
+    if (result.abuse && result.abuse.totalReports > weights.abuseReportsThreshold) {
+      add(result.provider, "abuse-reports", weights.abuseReports, "add", result.abuse.totalReports);
+    }
+  }
+
+  const has = (name: string) => signals.some((s) => s.signal === name);
+  const isVpn = has("vpn");
+  const isProxy = has("proxy");
+  const isTor = has("tor");
+  const isDatacenter = has("datacenter");
+
+  const riskScore = scoreSignals(signals);
+  const threatLevel = getThreatLevelFromScore(riskScore, policy.thresholds);
+
+  return {
+    ipAddress: ip,
+    ipVersion,
+    addressClass: "public",
+    riskScore,
+    isVpn,
+    isProxy,
+    isTor,
+    isDatacenter,
+    threatLevel,
+    vpnProvider,
+    isp,
+    organization,
+    asn,
+    country,
+    countryCode,
+    city,
+    region,
+    latitude,
+    longitude,
+    timezone,
+    signals,
+    policyVersion: policy.version,
+    analyzedAt: new Date(),
+  };
+}
+
+// Placeholder used when no provider returned anything
+function generateFallbackAnalysis(ip: string, policy: ScoringPolicy): InsertIpAnalysis {
+  return {
+    ipAddress: ip,
+    ipVersion: getIpVersion(ip) || "IPv4",
+    addressClass: "public",
+    riskScore: 15,
+    isVpn: false,
+    isProxy: false,
+    isTor: false,
+    isDatacenter: false,
+    threatLevel: "low",
+    vpnProvider: null,
+    isp: "Unknown ISP",
+    organization: "Unknown Organization",
+    asn: "AS0000",
+    country: "Unknown",
+    countryCode: "XX",
+    city: "Unknown",
+    region: "Unknown",
+    latitude: 0,
+    longitude: 0,
+    timezone: "UTC",
+    signals: [],
+    policyVersion: policy.version,
+    analyzedAt: new Date(),
+  };
+}
+
+// Private, loopback, documentation etc. addresses have no owner or location
+// worth asking providers about, so they get an empty, zero-risk analysis
+function generateSpecialPurposeAnalysis(ip: string, addressClass: AddressClass, policy: ScoringPolicy): InsertIpAnalysis {
+  return {
+    ipAddress: ip,
+    ipVersion: getIpVersion(ip) || "IPv4",
+    addressClass,
+    riskScore: 0,
+    isVpn: false,
+    isProxy: false,
+    isTor: false,
+    isDatacenter: false,
+    threatLevel: "low",
+    vpnProvider: null,
+    isp: null,
+    organization: null,
+    asn: null,
+    country: null,
+    countryCode: null,
+    city: null,
+    region: null,
+    latitude: null,
+    longitude: null,
+    timezone: null,
+    signals: [],
+    policyVersion: policy.version,
+    analyzedAt: new Date(),
+  };
+}
+
+// Merge the registration data providers returned, field by field in priority
+// order. No record at all when nobody had any, rather than a made-up one.
+export function composeWhoisRecord(ip: string, results: ProviderResult[]): InsertWhoisRecord | null {
+  const whois = results.flatMap((r) => (r.whois ? [r.whois] : []));
+  if (whois.length === 0) return null;
+  const field = <K extends keyof InsertWhoisRecord>(key: K) => pick(whois.map((w) => w[key])) ?? null;
+
+  return {
+    ipAddress: ip,
+    domain: field("domain"),
+    registrar: field("registrar"),
+    registrantName: field("registrantName"),
+    registrantOrg: field("registrantOrg"),
+    registrantCountry: field("registrantCountry"),
+    createdDate: field("createdDate"),
+    updatedDate: field("updatedDate"),
+    expiresDate: field("expiresDate"),
+    nameServers: field("nameServers") ?? [],
+    netRange: field("netRange"),
+    netName: field("netName"),
+    netHandle: field("netHandle"),
+    originAs: field("originAs"),
+    abuseContact: field("abuseContact"),
+    techContact: field("techContact"),
+    rawText: field("rawText"),
+    fetchedAt: new Date(),
+  };
+}
+
+export interface AnalysisOutcome {
+  analysis: InsertIpAnalysis;
+  whois: InsertWhoisRecord | null;
+  results: ProviderResult[];
+  placeholder: boolean; // Fallback values, since no provider answered
+}
+
+// Query every provider the workspace has enabled and compose the analysis for
+// one IP with its scoring policy and ranges. Provider results come from the
+// cache while fresh enough, unless `fresh` is set.
+export async function analyzeIp(workspaceId: string, ip: string, fresh = false): Promise<AnalysisOutcome> {
+  const settings = await getAnalysisSettings(workspaceId);
+  const addressClass = classifyAddress(ip) ?? "public";
+  if (addressClass !== "public") {
+    return {
+      analysis: generateSpecialPurposeAnalysis(ip, addressClass, settings.policy),
+      whois: null,
+      results: [],
+      placeholder: false,
+    };
+  }
+
+  const results = await providers.lookupAll(ip, fresh, settings.disabledProviders);
+  // Any provider answer (e.g. an offline Tor list hit) is worth more than the placeholder
+  const hasRealData = results.length > 0;
+  const analysis = hasRealData ? generateRealAnalysis(ip, results, settings) : generateFallbackAnalysis(ip, settings.policy);
+  return { analysis, whois: composeWhoisRecord(ip, results), results, placeholder: !hasRealData };
+}
@@ -0,0 +1,108 @@
+import type { Request, Response, NextFunction } from "express";
+import { createHash, randomBytes } from "crypto";
+import {
+  type ApiKey,
+  type ApiKeyScope,
+  type CreateApiKeyRequest,
+  type CreatedApiKey,
+  type PublicApiKey,
+} from "@shared/schema";
+import { storage } from "./storage";
+
+const KEY_PREFIX = "vpd_";
+// Characters of the key kept in the clear, e.g. "vpd_3kX9aQ2b"
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 8;
+
+declare global {
+  namespace Express {
+    interface Request {
+      apiKey?: ApiKey;
+    }
+  }
+}
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+export function toPublicApiKey({ keyHash, ...key }: ApiKey): PublicApiKey {
+  return key;
+}
+
+// Keys are 192 random bits, so a plain SHA-256 is enough to store them safely.
+// The key only ever acts in the workspace it was issued for.
+export async function issueApiKey(workspaceId: string, request: CreateApiKeyRequest): Promise<CreatedApiKey> {
+  const key = `${KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+  const apiKey = await storage.createApiKey(workspaceId, {
+    ...request,
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    keyHash: hashApiKey(key),
+    createdAt: new Date(),
+  });
+  return { apiKey: toPublicApiKey(apiKey), key };
+}
+
+export function hasScope(key: Pick<ApiKey, "scopes">, scope: ApiKeyScope): boolean {
+  return key.scopes.includes(scope) || key.scopes.includes("admin");
+}
+
+// "Authorization: Bearer <key>" or "X-API-Key: <key>"
+function readApiKey(req: Request): string | null {
+  const bearer = req.get("authorization")?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  return bearer ?? req.get("x-api-key") ?? null;
+}
+
+function utcDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Counts further units against the caller's daily quota, e.g. one per address
+// a subnet scan samples beyond the request itself. False, with nothing
+// counted, when the quota can't cover them; callers without a key always pass.
+export async function chargeApiKey(req: Request, res: Response, units: number): Promise<boolean> {
+  if (!req.apiKey || units <= 0) return true;
+  const now = new Date();
+  const used = await storage.consumeApiKeyQuota(req.apiKey.id, utcDay(now), now, units);
+  if (!used) return false;
+  req.apiKey = used;
+  if (used.dailyQuota !== null) {
+    res.set("X-Quota-Remaining", String(Math.max(0, used.dailyQuota - used.usageToday)));
+  }
+  return true;
+}
+
+// Identifies the caller by API key and counts the request against the key's
+// daily quota. Requests without a key pass through to session auth; scopes
+// are checked per route by requireScope (auth.ts).
+export async function authenticateApiKey(req: Request, res: Response, next: NextFunction) {
+  const presented = readApiKey(req);
+  if (!presented) return next();
+
+  try {
+    const key = await storage.getApiKeyByHash(hashApiKey(presented));
+    if (!key || key.revokedAt) {
+      return res.status(401).json({ error: "Invalid API key" });
+    }
+
+    const now = new Date();
+    const used = await storage.consumeApiKeyQuota(key.id, utcDay(now), now);
+    if (key.dailyQuota !== null) {
+      const tomorrow = new Date(`${utcDay(now)}T00:00:00Z`);
+      tomorrow.setUTCDate(tomorrow.getUTCDate() + 1);
+      res.set({
+        "X-Quota-Limit": String(key.dailyQuota),
+        "X-Quota-Remaining": String(Math.max(0, key.dailyQuota - (used?.usageToday ?? key.dailyQuota))),
+        "X-Quota-Reset": tomorrow.toISOString(),
+      });
+    }
+    if (!used) {
+      return res.status(429).json({ error: "Daily quota exceeded" });
+    }
+
+    req.apiKey = used;
+    next();
+  } catch (error) {
+    console.error("API key check error:", error);
+    res.status(500).json({ error: "Failed to check API key" });
+  }
+}
@@ -0,0 +1,144 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import createMemoryStore from "memorystore";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import {
+  USER_ROLES,
+  roleHasScope,
+  type ApiKeyScope,
+  type PublicUser,
+  type User,
+  type UserRole,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { hasScope } from "./api-keys";
+
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+declare global {
+  namespace Express {
+    interface User extends PublicUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+// Stored as "scrypt$<salt hex>$<hash hex>"
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, 64);
+  return `scrypt$${salt.toString("hex")}$${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(password, Buffer.from(salt, "hex"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+export function toPublicUser({ passwordHash, ...user }: User): PublicUser {
+  return user;
+}
+
+function sessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  console.log("⚠ SESSION_SECRET not set; sessions end when the server restarts");
+  return randomBytes(32).toString("hex");
+}
+
+// Postgres keeps sessions in its "session" table; with the other backends
+// they live in process memory, so users log in again after a restart
+function createSessionStore(): session.Store {
+  const store = storage.createSessionStore?.();
+  if (store) return store;
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
+
+// Cookie sessions for the dashboard, on /api only
+export function setupAuth(app: Express) {
+  const production = process.env.NODE_ENV === "production";
+  if (production) app.set("trust proxy", 1);
+
+  app.use("/api", session({
+    secret: sessionSecret(),
+    store: createSessionStore(),
+    resave: false,
+    saveUninitialized: false,
+    cookie: { httpOnly: true, sameSite: "lax", secure: production, maxAge: SESSION_TTL_MS },
+  }));
+  app.use("/api", passport.initialize());
+  app.use("/api", passport.session());
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username.trim().toLowerCase());
+      if (!user || !(await verifyPassword(password, user.passwordHash))) {
+        return done(null, false);
+      }
+      done(null, toPublicUser(user));
+    } catch (error) {
+      done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+
+  // Reloaded on every request, so role changes and deletions apply at once
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ? toPublicUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+}
+
+export function logIn(req: Request, user: Express.User): Promise<void> {
+  return new Promise((resolve, reject) => req.login(user, (err) => (err ? reject(err) : resolve())));
+}
+
+// Lowest role that carries a scope, for error messages
+function roleFor(scope: ApiKeyScope): string {
+  return USER_ROLES.find((role) => roleHasScope(role, scope))!;
+}
+
+// Callers are either API keys or logged-in users, whose role maps to scopes
+export function requireScope(scope: ApiKeyScope) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (req.apiKey) {
+      if (hasScope(req.apiKey, scope)) return next();
+      return res.status(403).json({ error: "Insufficient scope", required: scope });
+    }
+    if (req.user) {
+      if (roleHasScope(req.user.role, scope)) return next();
+      return res.status(403).json({ error: `Requires the ${roleFor(scope)} role` });
+    }
+    res.status(401).json({ error: "Authentication required" });
+  };
+}
+
+// For settings shared by every workspace (users, workspaces, scoring policy,
+// ranges, providers): an API key belongs to one workspace, so even an admin
+// key can't change them
+export function requireSessionRole(role: UserRole) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (req.apiKey) {
+      return res.status(403).json({ error: "API keys can't manage settings shared by all workspaces" });
+    }
+    if (req.user) {
+      if (USER_ROLES.indexOf(req.user.role) >= USER_ROLES.indexOf(role)) return next();
+      return res.status(403).json({ error: `Requires the ${role} role` });
+    }
+    res.status(401).json({ error: "Authentication required" });
+  };
+}
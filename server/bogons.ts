@@ -0,0 +1,49 @@
+import type { AddressClass } from "@shared/schema";
+import { parseIp, toCanonicalIp, type IpAddress } from "@shared/ip";
+import { PrefixTrie, parseCidr } from "./cidr";
+
+// IANA IPv4/IPv6 Special-Purpose Address Registries. The most specific
+// prefix wins, so e.g. 0.0.0.0/32 is "unspecified" inside reserved 0.0.0.0/8.
+const SPECIAL_PURPOSE_RANGES: [string, AddressClass][] = [
+  ["0.0.0.0/8", "reserved"], // "This network"
+  ["0.0.0.0/32", "unspecified"],
+  ["10.0.0.0/8", "private"], // RFC 1918
+  ["100.64.0.0/10", "cgnat"], // RFC 6598 shared address space
+  ["127.0.0.0/8", "loopback"],
+  ["169.254.0.0/16", "link-local"],
+  ["172.16.0.0/12", "private"], // RFC 1918
+  ["192.0.0.0/24", "reserved"], // IETF protocol assignments
+  ["192.0.2.0/24", "documentation"], // TEST-NET-1
+  ["192.88.99.0/24", "reserved"], // Deprecated 6to4 relay anycast
+  ["192.168.0.0/16", "private"], // RFC 1918
+  ["198.18.0.0/15", "benchmarking"], // RFC 2544
+  ["198.51.100.0/24", "documentation"], // TEST-NET-2
+  ["203.0.113.0/24", "documentation"], // TEST-NET-3
+  ["224.0.0.0/4", "multicast"],
+  ["240.0.0.0/4", "reserved"], // Future use
+  ["255.255.255.255/32", "broadcast"],
+
+  ["::/128", "unspecified"],
+  ["::1/128", "loopback"],
+  ["64:ff9b:1::/48", "private"], // Local-use IPv4/IPv6 translation
+  ["100::/64", "reserved"], // Discard-only
+  ["2001::/23", "reserved"], // IETF protocol assignments
+  ["2001:db8::/32", "documentation"],
+  ["3fff::/20", "documentation"], // RFC 9637
+  ["5f00::/16", "reserved"], // SRv6 SIDs
+  ["fc00::/7", "private"], // Unique local addresses
+  ["fe80::/10", "link-local"],
+  ["ff00::/8", "multicast"],
+];
+
+const specialPurpose = new PrefixTrie<AddressClass>();
+for (const [range, addressClass] of SPECIAL_PURPOSE_RANGES) {
+  specialPurpose.insert(parseCidr(range)!, addressClass);
+}
+
+// Returns null for strings that are not IP addresses. IPv4-mapped IPv6
+// (::ffff:a.b.c.d) is classified by its embedded IPv4 address.
+export function classifyAddress(ip: string): AddressClass | null {
+  const address = parseIp(ip);
+  return address ? specialPurpose.longestMatch(toCanonicalIp(address))?.value ?? "public" : null;
+}
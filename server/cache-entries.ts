@@ -0,0 +1,71 @@
+import type { CacheEntryInfo, CacheEntryList, CacheFilter } from "@shared/schema";
+import { parseIp } from "@shared/ip";
+import { cache, type CacheEntry } from "./cache";
+import { cidrContains, parseCidr } from "./cidr";
+
+// Entries returned by the cache browser at most
+const CACHE_BROWSER_LIMIT = 500;
+
+// Keys are "analysis:<workspace>:<ip>" and "provider:<name>:<ip>"; the address
+// is last because IPv6 addresses contain colons
+export function describeCacheEntry(entry: CacheEntry): CacheEntryInfo {
+  const [prefix, owner, ...rest] = entry.key.split(":");
+  const kind = (prefix === "analysis" || prefix === "provider") && owner && rest.length > 0 ? prefix : "other";
+  return {
+    key: entry.key,
+    kind,
+    ipAddress: kind === "other" ? null : rest.join(":"),
+    workspaceId: kind === "analysis" ? owner : null,
+    provider: kind === "provider" ? owner : null,
+    cachedAt: new Date(entry.cachedAt).toISOString(),
+    expiresAt: new Date(entry.expiresAt).toISOString(),
+    size: entry.size,
+  };
+}
+
+// Reported as a 400 before the filter is used
+export function getCacheFilterError(filter: CacheFilter): string | undefined {
+  if (filter.ip && !parseIp(filter.ip)) return "Invalid IP address";
+  if (filter.cidr && !parseCidr(filter.cidr)) return "Invalid CIDR";
+  return undefined;
+}
+
+function matcher(filter: CacheFilter): (entry: CacheEntryInfo) => boolean {
+  const ip = filter.ip ? parseIp(filter.ip) : null;
+  const cidr = filter.cidr ? parseCidr(filter.cidr) : null;
+  const cachedBefore = filter.olderThan ? Date.now() - filter.olderThan * 1000 : null;
+
+  return (entry) => {
+    if (filter.provider && entry.provider !== filter.provider) return false;
+    if (cachedBefore !== null && Date.parse(entry.cachedAt) > cachedBefore) return false;
+    if (ip || cidr) {
+      const address = entry.ipAddress ? parseIp(entry.ipAddress) : null;
+      if (!address) return false;
+      if (ip && (ip.family !== address.family || ip.value !== address.value)) return false;
+      if (cidr && !cidrContains(cidr, address)) return false;
+    }
+    return true;
+  };
+}
+
+// With a workspace, only that workspace's cached analyses are visible; shared
+// provider responses and other workspaces' entries are left out
+async function findEntries(filter: CacheFilter, workspaceId?: string): Promise<CacheEntryInfo[]> {
+  const entries = (await cache.list()).map(describeCacheEntry);
+  const matches = matcher(filter);
+  return entries.filter((entry) =>
+    matches(entry) && (workspaceId === undefined || (entry.kind === "analysis" && entry.workspaceId === workspaceId)),
+  );
+}
+
+export async function listCacheEntries(filter: CacheFilter, workspaceId?: string): Promise<CacheEntryList> {
+  const entries = await findEntries(filter, workspaceId);
+  entries.sort((a, b) => b.cachedAt.localeCompare(a.cachedAt));
+  return { entries: entries.slice(0, CACHE_BROWSER_LIMIT), total: entries.length };
+}
+
+// Removes matching entries and returns how many there were
+export async function invalidateCache(filter: CacheFilter, workspaceId?: string): Promise<number> {
+  const entries = await findEntries(filter, workspaceId);
+  return cache.delete(entries.map((entry) => entry.key));
+}
@@ -0,0 +1,275 @@
+import Redis from "ioredis";
+import type { CacheStats } from "@shared/schema";
+
+// Explicit choice of backend; without one, Redis if it is configured, else in-process
+export const CACHE_BACKEND = process.env.CACHE_BACKEND || (process.env.REDIS_URL ? "redis" : "memory");
+const REDIS_URL = process.env.REDIS_URL || "redis://localhost:6379";
+// Prefix of every Redis key, so the cache can share a Redis database with other apps
+const CACHE_NAMESPACE = process.env.CACHE_NAMESPACE || "proxy-detector";
+// Entries the in-process LRU keeps before evicting the least recently used
+const CACHE_MAX_ENTRIES = parseInt(process.env.CACHE_MAX_ENTRIES || "10000", 10);
+
+export interface CacheEntry {
+  key: string;
+  cachedAt: number; // Epoch ms
+  expiresAt: number;
+  size: number; // Bytes of JSON
+}
+
+// Values are stored as JSON and expire after their TTL (seconds). Failures
+// are never thrown: a cache that can't answer reports a miss, or answers
+// from whatever it could reach.
+export interface Cache {
+  get<T>(key: string): Promise<T | undefined>;
+  set(key: string, value: unknown, ttlSeconds: number): Promise<void>;
+  // Unexpired entries, in no particular order
+  list(): Promise<CacheEntry[]>;
+  // Returns how many of the keys existed
+  delete(keys: string[]): Promise<number>;
+  // Removes this cache's entries only, never anything else in a shared Redis
+  clear(): Promise<void>;
+  stats(): CacheStats;
+}
+
+interface MemoryEntry {
+  value: string;
+  cachedAt: number;
+  expiresAt: number;
+}
+
+// LRU with per-entry TTL. Map iteration order is insertion order, so
+// re-inserting on every read keeps the least recently used entry first.
+export class MemoryCache implements Cache {
+  private entries = new Map<string, MemoryEntry>();
+  private hits = 0;
+  private misses = 0;
+
+  constructor(private readonly maxEntries = CACHE_MAX_ENTRIES) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      this.hits++;
+      return JSON.parse(entry.value);
+    }
+    if (entry) this.entries.delete(key);
+    this.misses++;
+    return undefined;
+  }
+
+  async set(key: string, value: unknown, ttlSeconds: number): Promise<void> {
+    const now = Date.now();
+    this.entries.delete(key);
+    this.entries.set(key, { value: JSON.stringify(value), cachedAt: now, expiresAt: now + ttlSeconds * 1000 });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  // Listing doesn't count as use, so it leaves the LRU order alone
+  async list(): Promise<CacheEntry[]> {
+    const now = Date.now();
+    const live: CacheEntry[] = [];
+    for (const [key, entry] of Array.from(this.entries)) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      } else {
+        live.push({ key, cachedAt: entry.cachedAt, expiresAt: entry.expiresAt, size: entry.value.length });
+      }
+    }
+    return live;
+  }
+
+  async delete(keys: string[]): Promise<number> {
+    return keys.filter((key) => this.entries.delete(key)).length;
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  stats(): CacheStats {
+    return {
+      backend: "memory",
+      active: "memory",
+      hits: this.hits,
+      misses: this.misses,
+      errors: 0,
+      memoryEntries: this.entries.size,
+    };
+  }
+}
+
+// Redis, reconnecting in the background whenever the connection drops. Until
+// it is back, reads and writes go to an in-process LRU instead. Each entry is
+// a hash under "<namespace>:<key>" holding the JSON value and when it was
+// cached, so entries can be listed without transferring their values.
+export class RedisCache implements Cache {
+  private client: Redis;
+  private fallback = new MemoryCache();
+  private hits = 0;
+  private misses = 0;
+  private errors = 0;
+  private down = false; // Logged once per outage rather than per retry
+
+  constructor(url: string, private readonly namespace = CACHE_NAMESPACE) {
+    this.client = new Redis(url, {
+      retryStrategy: (times) => Math.min(times * 50, 2000),
+      maxRetriesPerRequest: 1,
+      enableReadyCheck: false,
+      enableOfflineQueue: false,
+    });
+    this.client.on("error", (err) => {
+      if (!this.down) console.log("⚠ Redis unavailable, caching in process memory:", err.message);
+      this.down = true;
+    });
+    this.client.on("ready", () => {
+      this.down = false;
+      console.log(`✓ Connected to Redis (keys prefixed "${this.namespace}:")`);
+    });
+  }
+
+  private get connected(): boolean {
+    return this.client.status === "ready";
+  }
+
+  private redisKey(key: string): string {
+    return `${this.namespace}:${key}`;
+  }
+
+  private async scanKeys(): Promise<string[]> {
+    const keys: string[] = [];
+    const stream = this.client.scanStream({ match: this.redisKey("*"), count: 500 });
+    for await (const batch of stream) keys.push(...(batch as string[]));
+    return Array.from(new Set(keys)); // SCAN may return a key more than once
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const value = await this.read<T>(key);
+    if (value === undefined) this.misses++;
+    else this.hits++;
+    return value;
+  }
+
+  private async read<T>(key: string): Promise<T | undefined> {
+    if (this.connected) {
+      try {
+        const raw = await this.client.hget(this.redisKey(key), "value");
+        return raw === null ? undefined : JSON.parse(raw);
+      } catch {
+        this.errors++;
+      }
+    }
+    return this.fallback.get<T>(key);
+  }
+
+  async set(key: string, value: unknown, ttlSeconds: number): Promise<void> {
+    if (this.connected) {
+      try {
+        await this.client
+          .multi()
+          .hset(this.redisKey(key), { value: JSON.stringify(value), cachedAt: Date.now() })
+          .expire(this.redisKey(key), ttlSeconds)
+          .exec();
+        return;
+      } catch {
+        this.errors++;
+      }
+    }
+    await this.fallback.set(key, value, ttlSeconds);
+  }
+
+  async list(): Promise<CacheEntry[]> {
+    if (this.connected) {
+      try {
+        return await this.listRedis();
+      } catch {
+        this.errors++;
+      }
+    }
+    return this.fallback.list();
+  }
+
+  private async listRedis(): Promise<CacheEntry[]> {
+    const keys = await this.scanKeys();
+    const entries: CacheEntry[] = [];
+    const now = Date.now();
+    for (let i = 0; i < keys.length; i += 500) {
+      const batch = keys.slice(i, i + 500);
+      const pipeline = this.client.pipeline();
+      batch.forEach((key) => pipeline.hget(key, "cachedAt").pttl(key).hstrlen(key, "value"));
+      const replies = (await pipeline.exec()) ?? [];
+      batch.forEach((key, j) => {
+        const [cachedAt, ttl, size] = replies.slice(j * 3, j * 3 + 3).map(([, reply]) => reply);
+        // Expired between SCAN and now, or not written by this cache
+        if (cachedAt === null || typeof ttl !== "number" || ttl < 0) return;
+        entries.push({
+          key: key.slice(this.namespace.length + 1),
+          cachedAt: Number(cachedAt),
+          expiresAt: now + ttl,
+          size: Number(size),
+        });
+      });
+    }
+    return entries;
+  }
+
+  // Counts copies in Redis and in the fallback (written during an outage) alike
+  async delete(keys: string[]): Promise<number> {
+    let removed = await this.fallback.delete(keys);
+    if (!this.connected || keys.length === 0) return removed;
+    try {
+      for (let i = 0; i < keys.length; i += 500) {
+        removed += await this.client.unlink(...keys.slice(i, i + 500).map((key) => this.redisKey(key)));
+      }
+    } catch {
+      this.errors++;
+    }
+    return removed;
+  }
+
+  async clear(): Promise<void> {
+    await this.fallback.clear();
+    if (!this.connected) return;
+    try {
+      const keys = await this.scanKeys();
+      for (let i = 0; i < keys.length; i += 500) {
+        await this.client.unlink(...keys.slice(i, i + 500));
+      }
+    } catch {
+      this.errors++;
+    }
+  }
+
+  stats(): CacheStats {
+    return {
+      backend: "redis",
+      active: this.connected ? "redis" : "memory",
+      hits: this.hits,
+      misses: this.misses,
+      errors: this.errors,
+      memoryEntries: this.fallback.size,
+    };
+  }
+}
+
+function createCache(): Cache {
+  switch (CACHE_BACKEND) {
+    case "memory":
+      console.log("✓ Using in-process cache");
+      return new MemoryCache();
+    case "redis":
+      return new RedisCache(REDIS_URL);
+    default:
+      throw new Error(`Unknown CACHE_BACKEND "${CACHE_BACKEND}" (expected "redis" or "memory")`);
+  }
+}
+
+// Shared by every cached lookup (analyses, bulk jobs)
+export const cache = createCache();
@@ -0,0 +1,73 @@
+import { IP_FAMILY_BITS as FAMILY_BITS, formatIp, parseIp, type IpAddress, type IpFamily } from "@shared/ip";
+
+export interface Cidr extends IpAddress {
+  prefixLength: number;
+}
+
+// Parses "203.0.113.0/24" or "2001:db8::/32"; a bare address is a host route.
+// Host bits below the prefix are cleared.
+export function parseCidr(cidr: string): Cidr | null {
+  const [addr, len, ...rest] = cidr.trim().split("/");
+  if (rest.length) return null;
+  const parsed = parseIp(addr);
+  if (!parsed || parsed.zone) return null;
+  const bits = FAMILY_BITS[parsed.family];
+  const prefixLength = len === undefined ? bits : Number(len);
+  if (!Number.isInteger(prefixLength) || prefixLength < 0 || prefixLength > bits || (len !== undefined && !/^\d+$/.test(len))) {
+    return null;
+  }
+  const hostBits = BigInt(bits - prefixLength);
+  const value = (parsed.value >> hostBits) << hostBits;
+  return { family: parsed.family, value, prefixLength };
+}
+
+export function formatCidr(cidr: Cidr): string {
+  return `${formatIp({ family: cidr.family, value: cidr.value })}/${cidr.prefixLength}`;
+}
+
+export function cidrContains(cidr: Cidr, address: IpAddress): boolean {
+  if (cidr.family !== address.family) return false;
+  const hostBits = BigInt(FAMILY_BITS[cidr.family] - cidr.prefixLength);
+  return address.value >> hostBits === cidr.value >> hostBits;
+}
+
+interface TrieNode<T> {
+  children: [TrieNode<T> | undefined, TrieNode<T> | undefined];
+  entry?: { cidr: Cidr; value: T };
+}
+
+// Binary trie keyed on address bits, one per family, for longest-prefix match
+export class PrefixTrie<T> {
+  private roots: Record<IpFamily, TrieNode<T>> = {
+    4: { children: [undefined, undefined] },
+    6: { children: [undefined, undefined] },
+  };
+  private count = 0;
+
+  get size(): number {
+    return this.count;
+  }
+
+  insert(cidr: Cidr, value: T): void {
+    const bits = FAMILY_BITS[cidr.family];
+    let node = this.roots[cidr.family];
+    for (let i = 0; i < cidr.prefixLength; i++) {
+      const bit = Number((cidr.value >> BigInt(bits - 1 - i)) & BigInt(1));
+      node = node.children[bit] ??= { children: [undefined, undefined] };
+    }
+    if (!node.entry) this.count++;
+    node.entry = { cidr, value };
+  }
+
+  longestMatch(address: IpAddress): { cidr: Cidr; value: T } | undefined {
+    const bits = FAMILY_BITS[address.family];
+    let node: TrieNode<T> | undefined = this.roots[address.family];
+    let best = node.entry;
+    for (let i = 0; i < bits && node; i++) {
+      const bit = Number((address.value >> BigInt(bits - 1 - i)) & BigInt(1));
+      node = node.children[bit];
+      if (node?.entry) best = node.entry;
+    }
+    return best;
+  }
+}
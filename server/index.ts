@@ -48,7 +48,8 @@ app.use((req, res, next) => {
     const duration = Date.now() - start;
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (capturedJsonResponse) {
+      // Routes that return secrets (new API keys) opt out of body logging
+      if (capturedJsonResponse && !res.locals.omitBodyFromLog) {
         logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
       }
 
@@ -0,0 +1,112 @@
+import { EventEmitter } from "events";
+import { randomUUID } from "crypto";
+import type { AnalyzeIpResponse, BulkJob, BulkJobItem, BulkJobProgress } from "@shared/schema";
+
+// Addresses analyzed at once across all jobs
+const BULK_JOB_CONCURRENCY = parseInt(process.env.BULK_JOB_CONCURRENCY || "4", 10);
+// Finished jobs stay queryable for this long
+const JOB_RETENTION_MS = 60 * 60 * 1000;
+
+export type JobEvent =
+  | { event: "item"; data: BulkJobItem }
+  | { event: "done"; data: BulkJobProgress };
+
+// Returns the result to list on the job, or null when the caller keeps its
+// own (subnet scans build a report instead)
+type Processor = (ip: string) => Promise<AnalyzeIpResponse | null>;
+// Runs once every address has finished, before "done" is emitted
+type Finisher = (job: BulkJob) => void;
+
+// A job's addresses not yet handed to a worker
+interface PendingJob {
+  job: BulkJob;
+  ips: string[];
+  analyze: Processor;
+}
+
+interface Task {
+  job: BulkJob;
+  ip: string;
+  analyze: Processor;
+}
+
+// Each job with the workspace its results are stored in
+const jobs = new Map<string, { job: BulkJob; workspaceId: string; finish?: Finisher }>();
+// Jobs with addresses left; workers take one address from each in turn, so a
+// large job doesn't hold up the ones queued after it
+const queue: PendingJob[] = [];
+let active = 0;
+
+// Emits a JobEvent under each job's id
+export const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+
+export function summarizeJob(job: BulkJob): BulkJobProgress {
+  const { results, errors, ...progress } = job;
+  return progress;
+}
+
+// Jobs of other workspaces are reported as missing
+export function getJob(workspaceId: string, id: string): BulkJob | undefined {
+  const entry = jobs.get(id);
+  return entry?.workspaceId === workspaceId ? entry.job : undefined;
+}
+
+// Queue every address; the workers are shared by all jobs so that several
+// jobs at once still stay within the providers' rate limits
+export function createBulkJob(workspaceId: string, ips: string[], analyze: Processor, finish?: Finisher): BulkJob {
+  const job: BulkJob = {
+    id: randomUUID(),
+    status: "queued",
+    total: ips.length,
+    completed: 0,
+    failed: 0,
+    createdAt: new Date().toISOString(),
+    finishedAt: null,
+    results: [],
+    errors: [],
+    report: null,
+  };
+  jobs.set(job.id, { job, workspaceId, finish });
+  queue.push({ job, ips: [...ips], analyze });
+  pump();
+  return job;
+}
+
+function pump() {
+  while (active < BULK_JOB_CONCURRENCY && queue.length > 0) {
+    const pending = queue.shift()!;
+    const task: Task = { job: pending.job, ip: pending.ips.shift()!, analyze: pending.analyze };
+    if (pending.ips.length > 0) queue.push(pending);
+    active++;
+    runTask(task).finally(() => {
+      active--;
+      pump();
+    });
+  }
+}
+
+async function runTask({ job, ip, analyze }: Task) {
+  job.status = "running";
+  let result: AnalyzeIpResponse | null = null;
+  let error: string | null = null;
+  try {
+    result = await analyze(ip);
+    if (result) job.results.push(result);
+  } catch (err) {
+    console.error(`Error analyzing ${ip}:`, err);
+    error = err instanceof Error ? err.message : String(err);
+    job.errors.push({ ipAddress: ip, error });
+    job.failed++;
+  }
+  job.completed++;
+  jobEvents.emit(job.id, { event: "item", data: { ipAddress: ip, result, error, progress: summarizeJob(job) } });
+
+  if (job.completed === job.total) {
+    jobs.get(job.id)?.finish?.(job);
+    job.status = "completed";
+    job.finishedAt = new Date().toISOString();
+    jobEvents.emit(job.id, { event: "done", data: summarizeJob(job) });
+    setTimeout(() => jobs.delete(job.id), JOB_RETENTION_MS).unref();
+  }
+}
@@ -0,0 +1,34 @@
+import type { DetectionProvider } from "./types";
+
+const ABUSEIPDB_KEY = process.env.ABUSEIPDB_API_KEY;
+
+// AbuseIPDB
+export const abuseipdbProvider: DetectionProvider = {
+  name: "abuseipdb",
+  capabilities: ["abuse", "tor", "proxy"],
+  cacheTtl: 24 * 60 * 60, // New reports come in daily
+  isConfigured: () => !!ABUSEIPDB_KEY,
+  async lookup(ip) {
+    const res = await fetch(`https://api.abuseipdb.com/api/v2/check?ipAddress=${ip}&maxAgeInDays=90&verbose`, {
+      headers: {
+        Key: ABUSEIPDB_KEY!,
+        Accept: "application/json",
+      },
+    });
+    if (!res.ok) return null;
+    const data = (await res.json()).data;
+    if (!data) return null;
+    console.log(`✓ AbuseIPDB for ${ip}:`, { score: data.abuseConfidenceScore, isTor: data.isTor });
+    return {
+      provider: "abuseipdb",
+      isTor: data.isTor === true,
+      // AbuseIPDB only classifies usage; a datacenter IP is treated as a likely proxy
+      isProxy: data.usageType === "Data Center",
+      abuse: {
+        confidenceScore: data.abuseConfidenceScore ?? 0,
+        totalReports: data.totalReports ?? 0,
+        usageType: data.usageType,
+      },
+    };
+  },
+};
@@ -0,0 +1,40 @@
+import type { DetectionProvider } from "./types";
+
+const APIIP_KEY = process.env.APIIP_API_KEY;
+
+// APIIP returns booleans as strings in some plans
+function toFlag(value: unknown): boolean {
+  return value === true || value === "true";
+}
+
+// APIIP - Geolocation and VPN detection (returns data in English)
+export const apiipProvider: DetectionProvider = {
+  name: "apiip",
+  capabilities: ["geo", "vpn", "proxy"],
+  cacheTtl: 24 * 60 * 60, // VPN and proxy flags change faster than locations
+  isConfigured: () => !!APIIP_KEY,
+  async lookup(ip) {
+    const res = await fetch(`https://apiip.net/api/check?ip=${ip}&apiKey=${APIIP_KEY}&format=json`);
+    if (!res.ok) return null;
+    const data = await res.json();
+    console.log(`✓ APIIP for ${ip}:`, { country: data.country_name, city: data.city, isVpn: data.is_vpn });
+    return {
+      provider: "apiip",
+      geo: {
+        country: data.country_name,
+        countryCode: data.country_code,
+        city: data.city,
+        region: data.state_name || data.state,
+        latitude: data.latitude,
+        longitude: data.longitude,
+        timezone: data.time_zone,
+      },
+      network: {
+        isp: data.isp,
+        organization: data.isp,
+      },
+      isVpn: toFlag(data.is_vpn),
+      isProxy: toFlag(data.is_proxy),
+    };
+  },
+};
@@ -0,0 +1,60 @@
+import { cache } from "../cache";
+import { ProviderRegistry } from "./registry";
+import { ipinfoProvider } from "./ipinfo";
+import { abuseipdbProvider } from "./abuseipdb";
+import { pyproxyProvider } from "./pyproxy";
+import { apiipProvider } from "./apiip";
+import { whoisxmlProvider } from "./whoisxml";
+import { maxmindProvider } from "./maxmind";
+import { torExitListProvider } from "./torlist";
+import { rdapProvider } from "./rdap";
+import { whois43Provider } from "./whois43";
+
+export type {
+  DetectionProvider,
+  ProviderCapability,
+  ProviderInfo,
+  ProviderResult,
+} from "./types";
+export { ProviderRegistry } from "./registry";
+
+// Comma-separated provider names to turn off, e.g. DISABLED_PROVIDERS=pyproxy,apiip
+const DISABLED_PROVIDERS = (process.env.DISABLED_PROVIDERS || "")
+  .split(",")
+  .map((name) => name.trim())
+  .filter(Boolean);
+
+// Cache TTLs in seconds replacing the providers' defaults, 0 to not cache,
+// e.g. PROVIDER_CACHE_TTLS=ipinfo=86400,abuseipdb=0
+const PROVIDER_CACHE_TTLS: Record<string, number> = Object.fromEntries(
+  (process.env.PROVIDER_CACHE_TTLS || "")
+    .split(",")
+    .map((entry) => entry.split("=").map((part) => part.trim()))
+    .filter(([name, ttl]) => name && ttl && Number.isFinite(Number(ttl)))
+    .map(([name, ttl]) => [name.toLowerCase(), Number(ttl)]),
+);
+
+export const providers = new ProviderRegistry(DISABLED_PROVIDERS, { cache, cacheTtls: PROVIDER_CACHE_TTLS });
+
+// Registration order is priority order when results are merged. MaxMind
+// only fills in what the commercial providers left out: its ASN org names
+// are terser than their organization strings, which the VPN/hosting name
+// lists are matched against.
+providers.register(ipinfoProvider);
+providers.register(apiipProvider);
+providers.register(pyproxyProvider);
+providers.register(abuseipdbProvider);
+providers.register(maxmindProvider);
+providers.register(rdapProvider);
+providers.register(whois43Provider);
+providers.register(whoisxmlProvider);
+providers.register(torExitListProvider);
+
+// Open local databases, then report which providers will be queried
+export async function initProviders(): Promise<void> {
+  await providers.initAll();
+  console.log(
+    "Detection providers:",
+    Object.fromEntries(providers.list().map((p) => [p.name, p.enabled && p.configured])),
+  );
+}
@@ -0,0 +1,63 @@
+import type { DetectionProvider } from "./types";
+
+// German to English location mapping
+const GERMAN_TO_ENGLISH_REGIONS: Record<string, string> = {
+  "Baden-Württemberg": "Baden-Württemberg",
+  "Bayern": "Bavaria",
+  "Berlin": "Berlin",
+  "Brandenburg": "Brandenburg",
+  "Bremen": "Bremen",
+  "Hamburg": "Hamburg",
+  "Hessen": "Hesse",
+  "Mecklenburg-Vorpommern": "Mecklenburg-Western Pomerania",
+  "Niedersachsen": "Lower Saxony",
+  "Nordrhein-Westfalen": "North Rhine-Westphalia",
+  "Rheinland-Pfalz": "Rhineland-Palatinate",
+  "Saarland": "Saarland",
+  "Sachsen": "Saxony",
+  "Sachsen-Anhalt": "Saxony-Anhalt",
+  "Schleswig-Holstein": "Schleswig-Holstein",
+  "Thüringen": "Thuringia",
+};
+
+function translateRegionToEnglish(region: string | undefined): string | undefined {
+  if (!region) return undefined;
+  return GERMAN_TO_ENGLISH_REGIONS[region] || region;
+}
+
+// IPInfo - Free geolocation (returns data in English)
+export const ipinfoProvider: DetectionProvider = {
+  name: "ipinfo",
+  capabilities: ["geo"],
+  cacheTtl: 30 * 24 * 60 * 60, // Locations rarely change
+  isConfigured: () => true,
+  async lookup(ip) {
+    const res = await fetch(`https://ipinfo.io/${ip}?token=a91115dbbe7daf`);
+    if (!res.ok) return null;
+    const data = await res.json();
+    console.log(`✓ IPInfo for ${ip}:`, { country: data.country, city: data.city, org: data.org });
+
+    // "org" looks like "AS20473 The Constant Company, LLC"
+    const organization: string | undefined = data.org;
+    const asnMatch = organization?.match(/^(AS\d+)/);
+    const [lat, lng] = (data.loc || "").split(",").map(parseFloat);
+
+    return {
+      provider: "ipinfo",
+      geo: {
+        country: data.country,
+        countryCode: data.country,
+        city: data.city,
+        region: translateRegionToEnglish(data.region),
+        latitude: Number.isFinite(lat) ? lat : undefined,
+        longitude: Number.isFinite(lng) ? lng : undefined,
+        timezone: data.timezone,
+      },
+      network: {
+        asn: data.asn?.asn || asnMatch?.[1],
+        isp: data.asn?.name || organization?.split(" ").slice(1).join(" ") || undefined,
+        organization,
+      },
+    };
+  },
+};
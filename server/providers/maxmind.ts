@@ -0,0 +1,93 @@
+import fs from "fs";
+import path from "path";
+import maxmind, { type AsnResponse, type CityResponse, type Reader, type Response } from "maxmind";
+import type { DetectionProvider } from "./types";
+
+const GEOIP_DIR = path.resolve(process.env.GEOIP_DIR || "data/geoip");
+const CITY_DB_PATH = path.resolve(process.env.MAXMIND_CITY_DB_PATH || path.join(GEOIP_DIR, "GeoLite2-City.mmdb"));
+const ASN_DB_PATH = path.resolve(process.env.MAXMIND_ASN_DB_PATH || path.join(GEOIP_DIR, "GeoLite2-ASN.mmdb"));
+
+// Reopen a database shortly after its file settles, so a half-copied file isn't read
+const RELOAD_DEBOUNCE_MS = 1000;
+
+// An .mmdb file on disk that is reopened whenever a new copy is dropped in its place
+class MmdbFile<T extends Response> {
+  reader: Reader<T> | null = null;
+  private reloadTimer: NodeJS.Timeout | null = null;
+
+  constructor(readonly file: string) {}
+
+  async load(): Promise<void> {
+    try {
+      this.reader = await maxmind.open<T>(this.file);
+      console.log(`✓ Loaded ${path.basename(this.file)} (built ${this.buildDate()})`);
+    } catch (error) {
+      // A missing file just means the database isn't installed
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.log(`⚠ Failed to open ${this.file}:`, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+
+  // Watch the directory rather than the file: replacing the file swaps its inode
+  watch(): void {
+    const dir = path.dirname(this.file);
+    try {
+      fs.mkdirSync(dir, { recursive: true });
+      fs.watch(dir, { persistent: false }, (_event, filename) => {
+        if (filename !== path.basename(this.file)) return;
+        if (this.reloadTimer) clearTimeout(this.reloadTimer);
+        this.reloadTimer = setTimeout(() => this.load(), RELOAD_DEBOUNCE_MS);
+      });
+    } catch (error) {
+      console.log(`⚠ Cannot watch ${dir} for GeoIP updates:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  private buildDate(): string {
+    const epoch = this.reader?.metadata.buildEpoch;
+    return epoch ? new Date(epoch).toISOString().slice(0, 10) : "unknown";
+  }
+}
+
+const cityDb = new MmdbFile<CityResponse>(CITY_DB_PATH);
+const asnDb = new MmdbFile<AsnResponse>(ASN_DB_PATH);
+
+// MaxMind GeoLite2 City/ASN databases read from disk - no network needed
+export const maxmindProvider: DetectionProvider = {
+  name: "maxmind",
+  capabilities: ["geo"],
+  isConfigured: () => !!cityDb.reader || !!asnDb.reader,
+  async init() {
+    await Promise.all([cityDb.load(), asnDb.load()]);
+    cityDb.watch();
+    asnDb.watch();
+  },
+  async lookup(ip) {
+    const city = cityDb.reader?.get(ip);
+    const asn = asnDb.reader?.get(ip);
+    if (!city && !asn) return null;
+
+    return {
+      provider: "maxmind",
+      geo: city
+        ? {
+            country: city.country?.iso_code,
+            countryCode: city.country?.iso_code,
+            city: city.city?.names.en,
+            region: city.subdivisions?.[0]?.names.en,
+            latitude: city.location?.latitude,
+            longitude: city.location?.longitude,
+            timezone: city.location?.time_zone,
+          }
+        : undefined,
+      network: asn
+        ? {
+            asn: `AS${asn.autonomous_system_number}`,
+            isp: asn.autonomous_system_organization,
+            organization: asn.autonomous_system_organization,
+          }
+        : undefined,
+    };
+  },
+};
@@ -0,0 +1,30 @@
+import type { DetectionProvider } from "./types";
+
+const PYPROXY_ACCESS_KEY = process.env.PYPROXY_ACCESS_KEY;
+const PYPROXY_ACCESS_SECRET = process.env.PYPROXY_ACCESS_SECRET;
+
+// PyProxy - VPN/Proxy detection
+export const pyproxyProvider: DetectionProvider = {
+  name: "pyproxy",
+  capabilities: ["vpn", "proxy"],
+  cacheTtl: 24 * 60 * 60,
+  isConfigured: () => !!PYPROXY_ACCESS_KEY && !!PYPROXY_ACCESS_SECRET,
+  async lookup(ip) {
+    const res = await fetch(`https://api.pyproxy.io/v1/ip_info`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${PYPROXY_ACCESS_KEY}`,
+      },
+      body: JSON.stringify({ ip, secret: PYPROXY_ACCESS_SECRET }),
+    });
+    if (!res.ok) return null;
+    const data = await res.json();
+    console.log(`✓ PyProxy for ${ip}:`, { isVpn: data.is_vpn, isProxy: data.is_proxy });
+    return {
+      provider: "pyproxy",
+      isVpn: data.is_vpn === true,
+      isProxy: data.is_proxy === true,
+    };
+  },
+};
@@ -0,0 +1,18 @@
+import { lookupRdap } from "../rdap";
+import type { DetectionProvider } from "./types";
+
+// Network registration from the responsible RIR (see server/rdap.ts); no key needed
+export const rdapProvider: DetectionProvider = {
+  name: "rdap",
+  capabilities: ["whois"],
+  cacheTtl: 7 * 24 * 60 * 60,
+  isConfigured: () => true,
+  async lookup(ip) {
+    const whois = await lookupRdap(ip);
+    if (!whois) return null;
+    return {
+      provider: "rdap",
+      whois,
+    };
+  },
+};
@@ -0,0 +1,124 @@
+import type { Cache } from "../cache";
+import type { DetectionProvider, ProviderInfo, ProviderResult } from "./types";
+
+export interface ProviderRegistryOptions {
+  // Where lookup results are kept; without one every lookup calls the provider
+  cache?: Cache;
+  // Per-provider TTLs in seconds, replacing the providers' own cacheTtl
+  cacheTtls?: Record<string, number>;
+}
+
+// Providers can be turned off for the whole server (constructor) and, on top
+// of that, per workspace: methods taking `disabled` also skip those names
+export class ProviderRegistry {
+  private providers: DetectionProvider[] = [];
+  private disabled = new Set<string>();
+  private cache?: Cache;
+  private cacheTtls: Record<string, number>;
+
+  constructor(disabled: string[] = [], options: ProviderRegistryOptions = {}) {
+    disabled.forEach((name) => this.disabled.add(name.toLowerCase()));
+    this.cache = options.cache;
+    this.cacheTtls = options.cacheTtls ?? {};
+  }
+
+  register(provider: DetectionProvider): void {
+    if (this.get(provider.name)) {
+      throw new Error(`Provider "${provider.name}" is already registered`);
+    }
+    this.providers.push(provider);
+  }
+
+  async initAll(): Promise<void> {
+    await Promise.all(
+      this.providers.map(async (provider) => {
+        try {
+          await provider.init?.();
+        } catch (e) {
+          console.log(`⚠ Provider ${provider.name} failed to initialize:`, e);
+        }
+      }),
+    );
+  }
+
+  get(name: string): DetectionProvider | undefined {
+    return this.providers.find((p) => p.name === name.toLowerCase());
+  }
+
+  isEnabled(provider: DetectionProvider, disabled: string[] = []): boolean {
+    return !this.disabled.has(provider.name) && !disabled.includes(provider.name);
+  }
+
+  cacheTtl(provider: DetectionProvider): number {
+    return this.cache ? this.cacheTtls[provider.name] ?? provider.cacheTtl ?? 0 : 0;
+  }
+
+  info(name: string, disabled: string[] = []): ProviderInfo | undefined {
+    const provider = this.get(name);
+    return provider ? this.describe(provider, disabled) : undefined;
+  }
+
+  list(disabled: string[] = []): ProviderInfo[] {
+    return this.providers.map((p) => this.describe(p, disabled));
+  }
+
+  private describe(provider: DetectionProvider, disabled: string[]): ProviderInfo {
+    return {
+      name: provider.name,
+      capabilities: provider.capabilities,
+      fallback: !!provider.fallback,
+      configured: provider.isConfigured(),
+      enabled: this.isEnabled(provider, disabled),
+      cacheTtl: this.cacheTtl(provider),
+    };
+  }
+
+  // Providers that are enabled and have their credentials, in registration order
+  active(disabled: string[] = []): DetectionProvider[] {
+    return this.providers.filter((p) => this.isEnabled(p, disabled) && p.isConfigured());
+  }
+
+  // Query every active primary provider in parallel; fallback providers
+  // only run when none of the primaries produced geolocation. Unless fresh,
+  // each provider's cached result is reused until its TTL runs out.
+  async lookupAll(ip: string, fresh = false, disabled: string[] = []): Promise<ProviderResult[]> {
+    const active = this.active(disabled);
+    const results = await this.runLookups(active.filter((p) => !p.fallback), ip, fresh);
+
+    if (!results.some((r) => r.geo)) {
+      const fallbacks = active.filter((p) => p.fallback && p.capabilities.includes("geo"));
+      for (const provider of fallbacks) {
+        const [result] = await this.runLookups([provider], ip, fresh);
+        if (result) {
+          results.push(result);
+          if (result.geo) break;
+        }
+      }
+    }
+
+    return results;
+  }
+
+  private async runLookups(providers: DetectionProvider[], ip: string, fresh: boolean): Promise<ProviderResult[]> {
+    const results = await Promise.all(providers.map((provider) => this.lookup(provider, ip, fresh)));
+    return results.filter((r): r is ProviderResult => r !== null);
+  }
+
+  // Failures and empty answers aren't cached, so they are retried next time
+  private async lookup(provider: DetectionProvider, ip: string, fresh: boolean): Promise<ProviderResult | null> {
+    const ttl = this.cacheTtl(provider);
+    const key = `provider:${provider.name}:${ip}`;
+    if (ttl > 0 && !fresh) {
+      const cached = await this.cache!.get<ProviderResult>(key);
+      if (cached) return cached;
+    }
+    try {
+      const result = await provider.lookup(ip);
+      if (result && ttl > 0) await this.cache!.set(key, result, ttl);
+      return result;
+    } catch (e) {
+      console.log(`⚠ Provider ${provider.name} failed for ${ip}:`, e);
+      return null;
+    }
+  }
+}
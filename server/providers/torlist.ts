@@ -0,0 +1,18 @@
+import { storage } from "../storage";
+import type { DetectionProvider } from "./types";
+
+// Exact match against the locally imported Tor exit list (see server/tor.ts)
+export const torExitListProvider: DetectionProvider = {
+  name: "torlist",
+  capabilities: ["tor"],
+  cacheTtl: 60 * 60, // Exit relays come and go within hours
+  isConfigured: () => true,
+  async lookup(ip) {
+    const node = await storage.getTorExitNode(ip);
+    if (!node) return null;
+    return {
+      provider: "torlist",
+      isTor: true,
+    };
+  },
+};
@@ -0,0 +1,63 @@
+import type { InsertWhoisRecord } from "@shared/schema";
+
+// What kind of intelligence a provider can contribute to an analysis
+export type ProviderCapability = "geo" | "vpn" | "proxy" | "tor" | "abuse" | "whois";
+
+export interface ProviderGeo {
+  country?: string;
+  countryCode?: string;
+  city?: string;
+  region?: string;
+  latitude?: number;
+  longitude?: number;
+  timezone?: string;
+}
+
+export interface ProviderNetwork {
+  asn?: string;
+  isp?: string;
+  organization?: string;
+}
+
+export interface ProviderAbuse {
+  confidenceScore: number;
+  totalReports: number;
+  usageType?: string;
+}
+
+// Normalized result every provider maps its raw API response into.
+// Fields a provider cannot answer are left undefined.
+export interface ProviderResult {
+  provider: string;
+  geo?: ProviderGeo;
+  network?: ProviderNetwork;
+  isVpn?: boolean;
+  isProxy?: boolean;
+  isTor?: boolean;
+  abuse?: ProviderAbuse;
+  whois?: Partial<InsertWhoisRecord>;
+}
+
+export interface DetectionProvider {
+  name: string;
+  capabilities: ProviderCapability[];
+  // Fallback providers are only consulted when no primary provider returned geolocation
+  fallback?: boolean;
+  // Seconds a result stays cached (see ProviderRegistry); omitted for
+  // sources that answer faster than the cache, like the MaxMind files
+  cacheTtl?: number;
+  // False when required credentials or data files are missing
+  isConfigured(): boolean;
+  // One-time setup at startup, e.g. opening local databases
+  init?(): Promise<void>;
+  lookup(ip: string): Promise<ProviderResult | null>;
+}
+
+export interface ProviderInfo {
+  name: string;
+  capabilities: ProviderCapability[];
+  fallback: boolean;
+  configured: boolean;
+  enabled: boolean;
+  cacheTtl: number; // 0 when results aren't cached
+}
@@ -0,0 +1,21 @@
+import { lookupWhoisRecord } from "../whois";
+import type { DetectionProvider } from "./types";
+
+// Opt-in: RIRs rate-limit and block clients that query them for every lookup
+const WHOIS43_ENABLED = process.env.WHOIS43_ENABLED === "true";
+
+// Classic port-43 WHOIS with referral following (see server/whois.ts)
+export const whois43Provider: DetectionProvider = {
+  name: "whois43",
+  capabilities: ["whois"],
+  cacheTtl: 7 * 24 * 60 * 60,
+  isConfigured: () => WHOIS43_ENABLED,
+  async lookup(ip) {
+    const whois = await lookupWhoisRecord(ip);
+    if (!whois) return null;
+    return {
+      provider: "whois43",
+      whois,
+    };
+  },
+};
@@ -0,0 +1,25 @@
+import type { DetectionProvider } from "./types";
+
+const WHOISXML_KEY = process.env.WHOISXML_API_KEY;
+
+// WhoisXML API
+export const whoisxmlProvider: DetectionProvider = {
+  name: "whoisxml",
+  capabilities: ["whois"],
+  cacheTtl: 7 * 24 * 60 * 60,
+  isConfigured: () => !!WHOISXML_KEY,
+  async lookup(ip) {
+    const res = await fetch(`https://ip-whois-api.whoisxmlapi.com/api/v1?apiKey=${WHOISXML_KEY}&ipv4=${ip}`);
+    if (!res.ok) return null;
+    const data = await res.json();
+    const result = data.result;
+    if (!result) return null;
+    console.log(`✓ WhoisXML for ${ip}:`, { org: result.organization });
+    return {
+      provider: "whoisxml",
+      whois: {
+        registrantOrg: result.organization,
+      },
+    };
+  },
+};
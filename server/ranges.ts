@@ -0,0 +1,209 @@
+import fs from "fs/promises";
+import path from "path";
+import { z } from "zod";
+import { parseIp, toCanonicalIp } from "@shared/ip";
+import { PrefixTrie, parseCidr, formatCidr } from "./cidr";
+import { storage } from "./storage";
+
+const RANGES_DIR = path.resolve(process.env.RANGES_DIR || "data/ranges");
+const WORKSPACE_RANGES_REFRESH_MS = 60 * 1000;
+
+export const rangeCategorySchema = z.enum(["vpn", "datacenter"]);
+export type RangeCategory = z.infer<typeof rangeCategorySchema>;
+
+export interface RangeEntry {
+  provider: string;
+  category: RangeCategory;
+}
+
+export interface RangeMatch extends RangeEntry {
+  matchedBy: "prefix" | "asn";
+  range: string; // matched CIDR or "AS<number>"
+}
+
+export interface ImportSummary {
+  imported: number;
+  skipped: number;
+}
+
+function parseAsn(value: string): number | null {
+  const match = value.trim().match(/^(?:AS)?(\d+)$/i);
+  return match ? Number(match[1]) : null;
+}
+
+// Strip "#" comments and blank lines
+function contentLines(content: string): string[] {
+  return content
+    .split(/\r?\n/)
+    .map((line) => line.replace(/#.*$/, "").trim())
+    .filter(Boolean);
+}
+
+// Local CIDR/ASN database of VPN and datacenter networks. Lists are plain
+// files under RANGES_DIR so detection works without any network access:
+//   <category>/<provider>.txt - one CIDR or ASN per line
+//   *.csv                     - range,provider,category rows
+export class RangeDatabase {
+  private prefixes = new PrefixTrie<RangeEntry>();
+  private asns = new Map<number, RangeEntry>();
+  private providerCounts = new Map<string, number>();
+
+  private add(value: string, entry: RangeEntry): boolean {
+    const asn = parseAsn(value);
+    if (asn !== null) {
+      this.asns.set(asn, entry);
+    } else {
+      const cidr = parseCidr(value);
+      if (!cidr) return false;
+      this.prefixes.insert(cidr, entry);
+    }
+    this.providerCounts.set(entry.provider, (this.providerCounts.get(entry.provider) ?? 0) + 1);
+    return true;
+  }
+
+  importText(content: string, entry: RangeEntry): ImportSummary {
+    const summary: ImportSummary = { imported: 0, skipped: 0 };
+    for (const line of contentLines(content)) {
+      if (this.add(line, entry)) summary.imported++;
+      else summary.skipped++;
+    }
+    return summary;
+  }
+
+  importCsv(content: string): ImportSummary {
+    const summary: ImportSummary = { imported: 0, skipped: 0 };
+    contentLines(content).forEach((line, idx) => {
+      const [range, provider, category] = line.split(",").map((col) => col.trim().replace(/^"|"$/g, ""));
+      // Optional header row
+      if (idx === 0 && /^(range|cidr|asn|entry)$/i.test(range)) return;
+      const parsedCategory = rangeCategorySchema.safeParse(category?.toLowerCase());
+      if (!range || !provider || !parsedCategory.success || !this.add(range, { provider, category: parsedCategory.data })) {
+        summary.skipped++;
+      } else {
+        summary.imported++;
+      }
+    });
+    return summary;
+  }
+
+  // Most specific prefix wins; the origin ASN is only consulted when no prefix matches
+  lookup(ip: string, asn?: string | null): RangeMatch | null {
+    const address = parseIp(ip);
+    const hit = address ? this.prefixes.longestMatch(toCanonicalIp(address)) : undefined;
+    if (hit) {
+      return { ...hit.value, matchedBy: "prefix", range: formatCidr(hit.cidr) };
+    }
+    const asNumber = asn ? parseAsn(asn) : null;
+    const entry = asNumber !== null ? this.asns.get(asNumber) : undefined;
+    if (entry) {
+      return { ...entry, matchedBy: "asn", range: `AS${asNumber}` };
+    }
+    return null;
+  }
+
+  stats() {
+    return {
+      prefixes: this.prefixes.size,
+      asns: this.asns.size,
+      providers: Object.fromEntries(this.providerCounts),
+    };
+  }
+}
+
+// Built from the lists in RANGES_DIR, shared by every workspace
+let rangeDb = new RangeDatabase();
+// Each workspace's own imports, as last read from storage
+const workspaceRanges = new Map<string, { db: RangeDatabase; loadedAt: number }>();
+
+export type RangeLookup = (ip: string, asn?: string | null) => RangeMatch | null;
+
+// Rebuilt from storage once WORKSPACE_RANGES_REFRESH_MS old, so imports made
+// through another instance apply here too
+async function getWorkspaceRanges(workspaceId: string): Promise<RangeDatabase> {
+  const cached = workspaceRanges.get(workspaceId);
+  if (cached && Date.now() - cached.loadedAt < WORKSPACE_RANGES_REFRESH_MS) {
+    return cached.db;
+  }
+  const db = new RangeDatabase();
+  for (const imported of await storage.getRangeImports(workspaceId)) {
+    if (imported.format === "csv") {
+      db.importCsv(imported.content);
+      continue;
+    }
+    const category = rangeCategorySchema.safeParse(imported.category);
+    if (imported.provider && category.success) {
+      db.importText(imported.content, { provider: imported.provider, category: category.data });
+    }
+  }
+  workspaceRanges.set(workspaceId, { db, loadedAt: Date.now() });
+  return db;
+}
+
+// A workspace's own imports take precedence over the shared lists
+export async function getRangeLookup(workspaceId: string): Promise<RangeLookup> {
+  const own = await getWorkspaceRanges(workspaceId);
+  const shared = rangeDb;
+  return (ip, asn) => own.lookup(ip, asn) ?? shared.lookup(ip, asn);
+}
+
+export async function getRangeStats(workspaceId: string) {
+  return { ...rangeDb.stats(), workspace: (await getWorkspaceRanges(workspaceId)).stats() };
+}
+
+async function listFiles(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+  const nested = await Promise.all(
+    entries.map((e) => (e.isDirectory() ? listFiles(path.join(dir, e.name)) : Promise.resolve([path.join(dir, e.name)]))),
+  );
+  return nested.flat();
+}
+
+// (Re)build the database from RANGES_DIR
+export async function loadRangeDatabase(): Promise<RangeDatabase> {
+  const db = new RangeDatabase();
+  for (const file of await listFiles(RANGES_DIR)) {
+    const content = await fs.readFile(file, "utf-8");
+    if (file.endsWith(".csv")) {
+      db.importCsv(content);
+    } else if (file.endsWith(".txt")) {
+      const category = rangeCategorySchema.safeParse(path.basename(path.dirname(file)));
+      if (!category.success) {
+        console.log(`⚠ Skipping range list ${file}: parent directory must be "vpn" or "datacenter"`);
+        continue;
+      }
+      db.importText(content, { provider: path.basename(file, ".txt"), category: category.data });
+    }
+  }
+  rangeDb = db;
+  const { prefixes, asns } = db.stats();
+  console.log(`✓ Range database loaded: ${prefixes} prefixes, ${asns} ASNs`);
+  return db;
+}
+
+// Import a list into the workspace's database and keep it in storage so it
+// survives restarts and reaches the other instances
+export async function importRangeList(
+  workspaceId: string,
+  format: "text" | "csv",
+  content: string,
+  entry?: RangeEntry,
+): Promise<ImportSummary> {
+  const db = await getWorkspaceRanges(workspaceId);
+  let summary: ImportSummary;
+  if (format === "csv") {
+    summary = db.importCsv(content);
+  } else {
+    if (!entry) throw new Error("Text lists need a provider and category");
+    summary = db.importText(content, entry);
+  }
+  if (summary.imported > 0) {
+    await storage.addRangeImport(workspaceId, {
+      format,
+      content,
+      provider: entry?.provider ?? null,
+      category: entry?.category ?? null,
+      importedAt: new Date(),
+    });
+  }
+  return summary;
+}
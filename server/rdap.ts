@@ -0,0 +1,185 @@
+import type { InsertWhoisRecord } from "@shared/schema";
+import { parseIp, toCanonicalIp } from "@shared/ip";
+import { PrefixTrie, parseCidr } from "./cidr";
+
+// IANA's bootstrap registry says which RIR serves each address block. Point
+// RDAP_BOOTSTRAP_URL at a local stub (see script/rdap-stub.ts) to test offline.
+const RDAP_BOOTSTRAP_URL = (process.env.RDAP_BOOTSTRAP_URL || "https://data.iana.org/rdap").replace(/\/+$/, "");
+const RDAP_TIMEOUT_MS = parseInt(process.env.RDAP_TIMEOUT_MS || "5000", 10);
+const BOOTSTRAP_TTL_MS = 24 * 60 * 60 * 1000;
+// After a failed load, IANA isn't asked again for this long
+const BOOTSTRAP_RETRY_MS = 5 * 60 * 1000;
+
+// RFC 9224 bootstrap file: [[prefixes], [service URLs]] pairs
+interface BootstrapFile {
+  services: [string[], string[]][];
+}
+
+// RFC 7095 jCard property: [name, parameters, type, value]
+type VcardProperty = [string, Record<string, unknown>, string, unknown];
+
+interface RdapEntity {
+  handle?: string;
+  roles?: string[];
+  vcardArray?: ["vcard", VcardProperty[]];
+  entities?: RdapEntity[];
+}
+
+interface RdapEvent {
+  eventAction: string;
+  eventDate: string;
+}
+
+// RFC 9083 IP network object, plus the common cidr0 and ARIN origin AS extensions
+interface RdapNetwork {
+  handle?: string;
+  startAddress?: string;
+  endAddress?: string;
+  name?: string;
+  country?: string;
+  port43?: string;
+  events?: RdapEvent[];
+  entities?: RdapEntity[];
+  cidr0_cidrs?: { v4prefix?: string; v6prefix?: string; length: number }[];
+  arin_originas0_originautnums?: number[];
+}
+
+let bootstrap: { services: PrefixTrie<string[]>; loadedAt: number } | null = null;
+let bootstrapLoading: Promise<PrefixTrie<string[]>> | null = null;
+let bootstrapFailure: { error: unknown; failedAt: number } | null = null;
+
+async function fetchJson<T>(url: string): Promise<T | null> {
+  const res = await fetch(url, {
+    headers: { Accept: "application/rdap+json, application/json" },
+    signal: AbortSignal.timeout(RDAP_TIMEOUT_MS),
+  });
+  if (res.status === 404) return null;
+  if (!res.ok) {
+    throw new Error(`RDAP request ${url} failed: ${res.status} ${res.statusText}`);
+  }
+  return (await res.json()) as T;
+}
+
+async function loadBootstrap(): Promise<PrefixTrie<string[]>> {
+  const services = new PrefixTrie<string[]>();
+  for (const registry of ["ipv4", "ipv6"]) {
+    const file = await fetchJson<BootstrapFile>(`${RDAP_BOOTSTRAP_URL}/${registry}.json`);
+    for (const [prefixes, urls] of file?.services ?? []) {
+      for (const prefix of prefixes) {
+        const cidr = parseCidr(prefix);
+        if (cidr) services.insert(cidr, urls);
+      }
+    }
+  }
+  bootstrap = { services, loadedAt: Date.now() };
+  return services;
+}
+
+// Refreshed daily; a failed refresh keeps serving the previous copy, or
+// without one fails every lookup, until BOOTSTRAP_RETRY_MS has passed
+async function getBootstrap(): Promise<PrefixTrie<string[]>> {
+  if (bootstrap && Date.now() - bootstrap.loadedAt < BOOTSTRAP_TTL_MS) {
+    return bootstrap.services;
+  }
+  if (bootstrapFailure && Date.now() - bootstrapFailure.failedAt < BOOTSTRAP_RETRY_MS) {
+    if (bootstrap) return bootstrap.services;
+    throw bootstrapFailure.error;
+  }
+  bootstrapLoading ??= loadBootstrap()
+    .then((services) => {
+      bootstrapFailure = null;
+      return services;
+    })
+    .catch((error) => {
+      console.log(`⚠ RDAP bootstrap load failed; retrying in ${BOOTSTRAP_RETRY_MS / 60000} minutes:`, error instanceof Error ? error.message : error);
+      bootstrapFailure = { error, failedAt: Date.now() };
+      throw error;
+    })
+    .finally(() => {
+      bootstrapLoading = null;
+    });
+  try {
+    return await bootstrapLoading;
+  } catch (error) {
+    if (bootstrap) return bootstrap.services;
+    throw error;
+  }
+}
+
+// The RDAP base URL responsible for an address, preferring HTTPS
+async function findRdapServer(ip: string): Promise<string | null> {
+  const address = parseIp(ip);
+  if (!address) return null;
+  const match = (await getBootstrap()).longestMatch(toCanonicalIp(address));
+  const url = match?.value.find((u) => u.startsWith("https:")) ?? match?.value[0];
+  if (!url) return null;
+  return url.endsWith("/") ? url : `${url}/`;
+}
+
+function vcardValue(entity: RdapEntity, name: string): string | null {
+  const property = entity.vcardArray?.[1]?.find(([prop]) => prop === name);
+  const value = property?.[3];
+  if (typeof value === "string") return value.trim() || null;
+  return null;
+}
+
+// Registries nest contacts inside other entities (e.g. the abuse role inside the org)
+function findEntity(entities: RdapEntity[] | undefined, role: string): RdapEntity | undefined {
+  for (const entity of entities ?? []) {
+    if (entity.roles?.includes(role)) return entity;
+    const nested = findEntity(entity.entities, role);
+    if (nested) return nested;
+  }
+  return undefined;
+}
+
+// Some registries don't tag the owning organization as "registrant"
+function findOrganization(entities: RdapEntity[] | undefined): RdapEntity | undefined {
+  return findEntity(entities, "registrant") ?? entities?.find((e) => vcardValue(e, "kind") === "org");
+}
+
+function contact(entity: RdapEntity | undefined): string | null {
+  if (!entity) return null;
+  return vcardValue(entity, "email") ?? vcardValue(entity, "tel") ?? vcardValue(entity, "fn");
+}
+
+function eventDate(network: RdapNetwork, action: string): string | null {
+  return network.events?.find((e) => e.eventAction === action)?.eventDate ?? null;
+}
+
+function netRange(network: RdapNetwork): string | null {
+  const cidrs = (network.cidr0_cidrs ?? []).flatMap((c) => {
+    const prefix = c.v4prefix ?? c.v6prefix;
+    return prefix ? [`${prefix}/${c.length}`] : [];
+  });
+  if (cidrs.length > 0) return cidrs.join(", ");
+  if (network.startAddress && network.endAddress) return `${network.startAddress} - ${network.endAddress}`;
+  return null;
+}
+
+function parseRdapNetwork(network: RdapNetwork): Partial<InsertWhoisRecord> {
+  const registrant = findOrganization(network.entities);
+  const originAs = network.arin_originas0_originautnums?.[0];
+  return {
+    registrar: network.port43 ?? null,
+    registrantOrg: registrant ? vcardValue(registrant, "fn") : null,
+    registrantCountry: network.country ?? null,
+    createdDate: eventDate(network, "registration"),
+    updatedDate: eventDate(network, "last changed"),
+    netRange: netRange(network),
+    netName: network.name ?? null,
+    netHandle: network.handle ?? null,
+    originAs: originAs !== undefined ? `AS${originAs}` : null,
+    abuseContact: contact(findEntity(network.entities, "abuse")),
+    techContact: contact(findEntity(network.entities, "technical")),
+  };
+}
+
+// Look up the network registration for an address at its RIR; null if unregistered
+export async function lookupRdap(ip: string): Promise<Partial<InsertWhoisRecord> | null> {
+  const server = await findRdapServer(ip);
+  if (!server) return null;
+  // RIRs redirect to each other for transferred blocks; fetch follows them
+  const network = await fetchJson<RdapNetwork>(`${server}ip/${encodeURIComponent(ip)}`);
+  return network ? parseRdapNetwork(network) : null;
+}
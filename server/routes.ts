@@ -1,321 +1,77 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import Redis from "ioredis";
+import { storage, decodeAnalysisCursor } from "./storage";
 import { z } from "zod";
+import { analyzeIp } from "./analysis";
+import { cache } from "./cache";
+import { getCacheFilterError, invalidateCache, listCacheEntries } from "./cache-entries";
+import { parseCidr } from "./cidr";
+import { DEFAULT_SUBNET_SAMPLE_SIZE, scanSubnet, selectSubnetAddresses, startSubnetScanJob } from "./subnet";
+import { createBulkJob, getJob, jobEvents, summarizeJob, type JobEvent } from "./jobs";
+import { providers, initProviders } from "./providers";
+import passport from "passport";
+import { authenticateApiKey, chargeApiKey, issueApiKey, toPublicApiKey } from "./api-keys";
+import { setupAuth, requireScope, requireSessionRole, hashPassword, toPublicUser, logIn } from "./auth";
+import { resolveWorkspace, getOpenableWorkspaces, canOpenWorkspace } from "./workspaces";
+import {
+  loadScoringPolicy,
+  getScoringPolicy,
+  getScoringPolicyHistory,
+  updateScoringPolicy,
+} from "./scoring";
+import {
+  getRangeLookup,
+  getRangeStats,
+  loadRangeDatabase,
+  importRangeList,
+  rangeCategorySchema,
+} from "./ranges";
+import {
+  DEFAULT_TOR_EXIT_LIST_URL,
+  initTorExitList,
+  importTorExitList,
+  importTorExitListFromUrl,
+} from "./tor";
 import {
   analyzeIpRequestSchema,
-  isValidIpAddress,
-  getIpVersion,
-  getThreatLevelFromScore,
-  type InsertIpAnalysis,
+  analysisQuerySchema,
+  bulkAnalyzeRequestSchema,
+  subnetScanRequestSchema,
+  MAX_SYNC_SUBNET_SAMPLE_SIZE,
+  updateScoringPolicySchema,
+  createApiKeyRequestSchema,
+  loginRequestSchema,
+  setupRequestSchema,
+  createUserRequestSchema,
+  updateUserRequestSchema,
+  workspaceRequestSchema,
+  selectWorkspaceRequestSchema,
+  cacheFilterSchema,
+  cacheInvalidationRequestSchema,
+  buildWhoisTimeline,
+  buildAnalysisTimeline,
+  type AnalyzeIpResponse,
+  type SubnetScanJob,
   type InsertWhoisRecord,
+  type AuthStatus,
+  type WorkspaceList,
 } from "@shared/schema";
-
-// API Keys from environment
-const ABUSEIPDB_KEY = process.env.ABUSEIPDB_API_KEY;
-const MAXMIND_KEY = process.env.MAXMIND_LICENSE_KEY;
-const IPINFO_KEY = process.env.IPINFO_API_KEY;
-const WHOISXML_KEY = process.env.WHOISXML_API_KEY;
-const APIIP_KEY = process.env.APIIP_API_KEY;
-const PYPROXY_ACCESS_KEY = process.env.PYPROXY_ACCESS_KEY;
-const PYPROXY_ACCESS_SECRET = process.env.PYPROXY_ACCESS_SECRET;
-
-console.log("API Keys loaded:", {
-  abuseipdb: !!ABUSEIPDB_KEY,
-  maxmind: !!MAXMIND_KEY,
-  ipinfo: !!IPINFO_KEY,
-  whoisxml: !!WHOISXML_KEY,
-  apiip: !!APIIP_KEY,
-  pyproxy: !!PYPROXY_ACCESS_KEY,
-});
-
-// Redis for caching
-let redis: Redis | null = null;
-try {
-  const REDIS_URL = process.env.REDIS_URL || "redis://localhost:6379";
-  redis = new Redis(REDIS_URL, {
-    retryStrategy: (times) => Math.min(times * 50, 2000),
-    maxRetriesPerRequest: 3,
-    enableReadyCheck: false,
-    enableOfflineQueue: false,
-  });
-  redis.on("error", (err) => {
-    redis = null;
-    console.log("⚠ Redis unavailable:", err.message);
-  });
-  redis.on("connect", () => console.log("✓ Connected to Redis"));
-} catch (err) {
-  console.log("⚠ Redis unavailable:", err);
-}
+import { canonicalizeIp } from "@shared/ip";
 
 const CACHE_TTL = 3600; // 1 hour
+// How long past CACHE_TTL a cached analysis is still served, flagged stale,
+// while a background refresh runs; 0 turns stale-while-revalidate off
+const ANALYSIS_STALE_TTL = parseInt(process.env.ANALYSIS_STALE_TTL || "86400", 10);
 
-// German to English location mapping
-const GERMAN_TO_ENGLISH_REGIONS: Record<string, string> = {
-  "Baden-Württemberg": "Baden-Württemberg",
-  "Bayern": "Bavaria",
-  "Berlin": "Berlin",
-  "Brandenburg": "Brandenburg",
-  "Bremen": "Bremen",
-  "Hamburg": "Hamburg",
-  "Hessen": "Hesse",
-  "Mecklenburg-Vorpommern": "Mecklenburg-Western Pomerania",
-  "Niedersachsen": "Lower Saxony",
-  "Nordrhein-Westfalen": "North Rhine-Westphalia",
-  "Rheinland-Pfalz": "Rhineland-Palatinate",
-  "Saarland": "Saarland",
-  "Sachsen": "Saxony",
-  "Sachsen-Anhalt": "Saxony-Anhalt",
-  "Schleswig-Holstein": "Schleswig-Holstein",
-  "Thüringen": "Thuringia",
-};
-
-function translateRegionToEnglish(region: string | undefined): string {
-  if (!region) return "Unknown";
-  return GERMAN_TO_ENGLISH_REGIONS[region] || region;
+// Cache entries outlive their freshness by ANALYSIS_STALE_TTL
+interface CachedAnalysis {
+  result: AnalyzeIpResponse;
+  freshUntil: number; // Epoch ms
 }
 
-// IPInfo - Free geolocation (returns data in English)
-async function fetchIPGeolocation(ip: string) {
-  try {
-    const res = await fetch(`https://ipinfo.io/${ip}?token=a91115dbbe7daf`);
-    if (!res.ok) return null;
-    const data = await res.json();
-    // IPInfo returns English by default
-    console.log(`✓ IPInfo for ${ip}:`, { country: data.country, city: data.city, org: data.org });
-    return {
-      ...data,
-      city: data.city || "Unknown",
-      region: data.region || "Unknown",
-    };
-  } catch (e) {
-    return null;
-  }
-}
-
-// GeoIP-DB - Alternative geolocation
-async function fetchGeoIPDB(ip: string) {
-  try {
-    const res = await fetch(`https://geolite.maxmind.com/geoip/v2.1/city/${ip}?pretty=1`, {
-      headers: {
-        Accept: "application/json",
-      },
-    });
-    if (!res.ok) return null;
-    const data = await res.json();
-    return {
-      country: data.country?.iso_code,
-      city: data.city?.names?.en,
-      loc: `${data.location?.latitude},${data.location?.longitude}`,
-      timezone: data.location?.time_zone,
-      org: data.traits?.organization_name,
-    };
-  } catch (e) {
-    return null;
-  }
-}
-
-// PyProxy - VPN/Proxy detection
-async function fetchPyProxy(ip: string) {
-  if (!PYPROXY_ACCESS_KEY || !PYPROXY_ACCESS_SECRET) return null;
-  try {
-    const res = await fetch(`https://api.pyproxy.io/v1/ip_info`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${PYPROXY_ACCESS_KEY}`,
-      },
-      body: JSON.stringify({ ip, secret: PYPROXY_ACCESS_SECRET }),
-    });
-    if (!res.ok) return null;
-    const data = await res.json();
-    console.log(`✓ PyProxy for ${ip}:`, { isVpn: data.is_vpn, isProxy: data.is_proxy });
-    return data;
-  } catch (e) {
-    return null;
-  }
-}
-
-// APIIP - Geolocation and VPN detection (returns data in English)
-async function fetchAPIIP(ip: string) {
-  if (!APIIP_KEY) return null;
-  try {
-    const res = await fetch(`https://apiip.net/api/check?ip=${ip}&apiKey=${APIIP_KEY}&format=json`);
-    if (!res.ok) return null;
-    const data = await res.json();
-    console.log(`✓ APIIP for ${ip}:`, { country: data.country_name, city: data.city, isVpn: data.is_vpn });
-    return {
-      country: data.country_name,
-      city: data.city || "Unknown",
-      region: data.state_name || data.state || "Unknown",
-      timezone: data.time_zone,
-      latitude: data.latitude,
-      longitude: data.longitude,
-      org: data.isp,
-      is_vpn: data.is_vpn,
-      is_proxy: data.is_proxy,
-    };
-  } catch (e) {
-    return null;
-  }
-}
-
-// WhoisXML API
-async function fetchWhoisXML(ip: string) {
-  if (!WHOISXML_KEY) return null;
-  try {
-    const res = await fetch(`https://ip-whois-api.whoisxmlapi.com/api/v1?apiKey=${WHOISXML_KEY}&ipv4=${ip}`);
-    if (!res.ok) return null;
-    const data = await res.json();
-    console.log(`✓ WhoisXML for ${ip}:`, { org: data.result?.organization });
-    return data.result || null;
-  } catch (e) {
-    return null;
-  }
-}
-
-// AbuseIPDB
-async function fetchAbuseIPDB(ip: string) {
-  if (!ABUSEIPDB_KEY) return null;
-  try {
-    const res = await fetch(`https://api.abuseipdb.com/api/v2/check?ipAddress=${ip}&maxAgeInDays=90&verbose`, {
-      headers: {
-        Key: ABUSEIPDB_KEY,
-        Accept: "application/json",
-      },
-    });
-    if (!res.ok) return null;
-    const data = await res.json();
-    console.log(`✓ AbuseIPDB for ${ip}:`, { score: data.data?.abuseConfidenceScore, isTor: data.data?.isTor });
-    return data.data || null;
-  } catch (e) {
-    return null;
-  }
-}
-
-// List of known VPN/proxy providers
-const VPN_PROVIDERS = [
-  "NordVPN", "ExpressVPN", "Surfshark", "ProtonVPN", "CyberGhost",
-  "IPVanish", "Private Internet Access", "PIA", "Windscribe", "TunnelBear",
-  "Turbo VPN", "TurboVPN", "HotspotShield", "VyprVPN", "StrongVPN", "Mullvad", "turbo",
-  "IVPN", "PureVPN", "SaferVPN", "VPN Gate", "Astrill", "Bitdefender VPN",
-  "Avast VPN", "AVG VPN", "McAfee VPN", "Norton VPN", "Perfect Privacy",
-  "Freedome", "Hotspot Shield", "Hide My Ass", "HMA", "VPNBook",
-  "VPNGate", "Psiphon", "UltraVPN", "VPNArea", "ibVPN", "SlickVPN",
-  "CyberVPN", "VPN.com", "FastVPN", "VPNSecure", "BTGuard",
-  "SecureVPN", "VPNUnlimited", "IronSocket", "ZenMate", "VPNMaster", "KeepSolid",
-  "Betternet", "Touch VPN", "Thunder VPN", "Snap VPN", "Free VPN", "ProxyMaster",
-  "VPN Master", "Unblock", "Browsec", "ZenVPN", "UFO VPN"
-];
-
-// Hosting/datacenter providers
-const HOSTING_PROVIDERS = [
-  "AWS", "Azure", "Google Cloud", "DigitalOcean", "Linode", "Vultr",
-  "Zenlayer", "Softlayer", "Equinix", "Rackspace", "OVH", "Hetzner",
-  "Scaleway", "Packet", "UpCloud", "Brightbox", "Joyent", "ProfitBricks",
-  "Heroku", "Openshift", "EC2", "Compute Engine", "App Service"
-];
-
-// Hosting providers commonly used by VPN services
-const VPN_HOSTING_PROVIDERS = [
-  "Zenlayer", "Softlayer", "Equinix", "Packet", "Vultr", "DigitalOcean", "OVH",
-  "Datacamp", "Contabo", "M247", "BudgetVM", "Nocix", "Ryukish", "VPS.ag",
-  "ColoCrossing", "Leaseweb", "Cogent", "Voxility", "VHoster",
-  "The Constant Company", "ConstantCompany", "Constant Company", "AS20473",
-  "Hop One Networks", "HopOne", "Hop One", "AS397391", "Astec", "Telia Company",
-  "DigitalOcean", "Vultr", "Linode", "Akamai", "Fastly"
-];
-
-// Generate analysis from real data
-async function generateRealAnalysis(ip: string, geoData: any, abuseData: any, pyProxyData: any, apiipData: any): Promise<InsertIpAnalysis> {
-  const ipVersion = getIpVersion(ip) || "IPv4";
-  
-  // Parse location data from multiple sources
-  let locStr = "0,0";
-  if (geoData?.loc) {
-    locStr = geoData.loc;
-  } else if (apiipData?.latitude && apiipData?.longitude) {
-    locStr = `${apiipData.latitude},${apiipData.longitude}`;
-  }
-  const loc = locStr.split(",");
-  const country = geoData?.country || apiipData?.country_name || "Unknown";
-  const countryCode = country;
-  const city = geoData?.city || apiipData?.city || "Unknown";
-  const region = translateRegionToEnglish(geoData?.region) || city;
-  const latitude = parseFloat(loc[0]) || 0;
-  const longitude = parseFloat(loc[1]) || 0;
-  const organization = geoData?.org || "Unknown";
-  
-  // Extract ASN from organization if it starts with "AS" (e.g., "AS20473 Company Name")
-  let asn = geoData?.asn || "Unknown";
-  if (asn === "Unknown" && organization.startsWith("AS")) {
-    const asnMatch = organization.match(/^(AS\d+)/);
-    if (asnMatch) asn = asnMatch[1];
-  }
-  
-  const isp = geoData?.isp || organization.split(" ").slice(1).join(" ") || "Unknown";
-  const timezone = geoData?.timezone || "UTC";
-  
-  // VPN/Proxy detection from multiple sources
-  const orgLower = organization.toLowerCase();
-  const ispLower = isp.toLowerCase();
-  
-  // Detect which VPN provider was matched
-  let vpnProvider: string | null = null;
-  const matchedVpnProvider = VPN_PROVIDERS.find(v => orgLower.includes(v.toLowerCase()) || ispLower.includes(v.toLowerCase()));
-  const matchedVpnHosting = VPN_HOSTING_PROVIDERS.find(h => orgLower.includes(h.toLowerCase()) || ispLower.includes(h.toLowerCase()));
-  
-  if (matchedVpnProvider) {
-    vpnProvider = matchedVpnProvider;
-  } else if (matchedVpnHosting) {
-    vpnProvider = matchedVpnHosting;
-  }
-  
-  const isVpnProvider = !!matchedVpnProvider;
-  const isVpnHosting = !!matchedVpnHosting;
-  const isHosting = HOSTING_PROVIDERS.some(h => orgLower.includes(h.toLowerCase()) || ispLower.includes(h.toLowerCase()));
-  
-  // Combine detection from PyProxy, APIIP, AbuseIPDB and provider lists
-  const isVpn = isVpnProvider || isVpnHosting || pyProxyData?.is_vpn === true || apiipData?.is_vpn === "true" || orgLower.includes("vpn") || ispLower.includes("vpn");
-  const isProxy = pyProxyData?.is_proxy === true || apiipData?.is_proxy === "true" || ispLower.includes("proxy") || (abuseData?.usageType === "Data Center");
-  const isTor = abuseData?.isTor === true || false;
-  const isDatacenter = isHosting || orgLower.includes("datacenter") || orgLower.includes("hosting");
-  
-  let riskScore = 0;
-  if (isVpn) riskScore = 75;
-  if (isProxy) riskScore = Math.max(riskScore, 70);
-  if (isTor) riskScore = 95;
-  if (isDatacenter && !isVpn && !isProxy) riskScore = 45;
-  if (abuseData?.abuseConfidenceScore) riskScore = Math.max(riskScore, Math.round(abuseData.abuseConfidenceScore * 0.9));
-  if (abuseData?.totalReports > 3) riskScore = Math.min(100, riskScore + 15);
-  
-  riskScore = Math.min(100, Math.max(0, riskScore));
-  const threatLevel = getThreatLevelFromScore(riskScore);
-  
-  return {
-    ipAddress: ip,
-    ipVersion,
-    riskScore,
-    isVpn,
-    isProxy,
-    isTor,
-    isDatacenter,
-    threatLevel,
-    vpnProvider,
-    isp,
-    organization,
-    asn,
-    country,
-    countryCode,
-    city,
-    region,
-    latitude,
-    longitude,
-    timezone,
-    analyzedAt: new Date(),
-  };
-}
+// Lookups in progress, so simultaneous requests for one address share a
+// single set of provider calls and stored records
+const inFlight = new Map<string, Promise<AnalyzeIpResponse>>();
 
 function validateRequest(schema: z.ZodSchema) {
   return (req: Request, res: Response, next: NextFunction) => {
@@ -332,14 +88,69 @@ function validateRequest(schema: z.ZodSchema) {
   };
 }
 
+// Analyze one address (served from the cache unless fresh), store it in the
+// workspace and cache the result there. An expired result still within
+// ANALYSIS_STALE_TTL is returned at once while it is refreshed behind the scenes.
+async function runAnalysis(workspaceId: string, ipAddress: string, fresh = false): Promise<AnalyzeIpResponse> {
+  const cacheKey = `analysis:${workspaceId}:${ipAddress}`;
+  if (!fresh) {
+    const cached = await cache.get<CachedAnalysis>(cacheKey);
+    if (cached && cached.freshUntil > Date.now()) {
+      return { ...cached.result, cached: true, source: "cache" };
+    }
+    if (cached) {
+      refreshAnalysis(workspaceId, ipAddress, false).catch((e) => {
+        console.log(`⚠ Background refresh of ${ipAddress} failed:`, e);
+      });
+      return { ...cached.result, cached: true, source: "cache", stale: true };
+    }
+  }
+  return refreshAnalysis(workspaceId, ipAddress, fresh);
+}
+
+// Joins the lookup already running for the address, if any. Fresh lookups
+// bypass provider caches too, so they only join each other.
+function refreshAnalysis(workspaceId: string, ipAddress: string, fresh: boolean): Promise<AnalyzeIpResponse> {
+  const cacheKey = `analysis:${workspaceId}:${ipAddress}`;
+  const flightKey = fresh ? `${cacheKey}:fresh` : cacheKey;
+  const running = inFlight.get(flightKey);
+  if (running) return running;
+
+  const lookup = (async (): Promise<AnalyzeIpResponse> => {
+    const { analysis: analysisData, whois: whoisData, placeholder } = await analyzeIp(workspaceId, ipAddress, fresh);
+    const analysis = await storage.createAnalysis(workspaceId, analysisData);
+    const whois = whoisData ? await storage.createWhoisRecord(workspaceId, whoisData) : null;
+
+    // A placeholder (every provider failed) isn't cached, so an outage doesn't
+    // pin it in place of a real verdict; any earlier cached result is kept
+    if (placeholder) {
+      return { analysis, whois, cached: false, source: "real", placeholder: true };
+    }
+    const result: AnalyzeIpResponse = { analysis, whois, cached: false, source: "real" };
+    const entry: CachedAnalysis = { result, freshUntil: Date.now() + CACHE_TTL * 1000 };
+    await cache.set(cacheKey, entry, CACHE_TTL + ANALYSIS_STALE_TTL);
+    return result;
+  })().finally(() => inFlight.delete(flightKey));
+
+  inFlight.set(flightKey, lookup);
+  return lookup;
+}
+
+// Workspace ids to store on a user; an unknown one is returned instead
+async function findUnknownWorkspace(ids: string[]): Promise<string | undefined> {
+  const known = new Set((await storage.getWorkspaces()).map((w) => w.id));
+  return ids.find((id) => !known.has(id));
+}
+
+// Per API key or logged-in user, otherwise per client IP
 const requestCounts = new Map<string, { count: number; resetAt: number }>();
 function rateLimit(req: Request, res: Response, next: NextFunction) {
-  const ip = req.ip || "unknown";
+  const client = req.apiKey ? `key:${req.apiKey.id}` : req.user ? `user:${req.user.id}` : req.ip || "unknown";
   const now = Date.now();
-  const record = requestCounts.get(ip);
+  const record = requestCounts.get(client);
   
   if (!record || now > record.resetAt) {
-    requestCounts.set(ip, { count: 1, resetAt: now + 60000 });
+    requestCounts.set(client, { count: 1, resetAt: now + 60000 });
     return next();
   }
   
@@ -355,114 +166,150 @@ export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
-  await storage.connect();
-  
-  app.use("/api", rateLimit);
+  await loadScoringPolicy();
+  await loadRangeDatabase();
+  await initTorExitList();
+  await initProviders();
   
+  setupAuth(app);
+
+  // Open to load balancers and the dashboard's status indicator
   app.get("/api/health", (_req, res) => {
     res.json({ status: "ok", timestamp: new Date().toISOString() });
   });
-  
-  app.post("/api/analyze", validateRequest(analyzeIpRequestSchema), async (req, res) => {
+
+  app.use("/api", authenticateApiKey);
+  app.use("/api", rateLimit);
+
+  app.get("/api/auth/me", async (req, res) => {
     try {
-      const { ipAddress } = req.body;
-      if (!isValidIpAddress(ipAddress)) {
-        return res.status(400).json({ error: "Invalid IP address" });
+      const status: AuthStatus = {
+        user: req.user ?? null,
+        needsSetup: !req.user && (await storage.countUsers()) === 0,
+      };
+      res.json(status);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to retrieve session" });
+    }
+  });
+
+  app.post("/api/auth/login", validateRequest(loginRequestSchema), (req, res, next) => {
+    passport.authenticate("local", async (err: unknown, user: Express.User | false) => {
+      if (err) return next(err);
+      if (!user) return res.status(401).json({ error: "Invalid username or password" });
+      try {
+        await logIn(req, user);
+        await storage.updateUser(user.id, { lastLoginAt: new Date() });
+        res.json(user);
+      } catch (error) {
+        next(error);
       }
-      
-      // Check Redis cache first (skip if fresh=true)
-      const isFresh = req.query.fresh === "true";
-      if (!isFresh && redis) {
-        const cacheKey = `analysis:${ipAddress}`;
-        try {
-          const cached = await redis.get(cacheKey);
-          if (cached) {
-            return res.json({ ...JSON.parse(cached), cached: true, source: "redis" });
-          }
-        } catch {
-          // Continue if cache fails
-        }
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      res.json({ success: true });
+    });
+  });
+
+  // Creates the first admin and logs them in; closed once any account exists
+  app.post("/api/auth/setup", validateRequest(setupRequestSchema), async (req, res) => {
+    try {
+      if ((await storage.countUsers()) > 0) {
+        return res.status(409).json({ error: "Setup has already been completed" });
       }
-      
-      // Fetch from all available APIs
-      const [geoData, abuseData, pyProxyData, apiipData, whoisData] = await Promise.all([
-        fetchIPGeolocation(ipAddress),
-        fetchAbuseIPDB(ipAddress),
-        fetchPyProxy(ipAddress),
-        fetchAPIIP(ipAddress),
-        fetchWhoisXML(ipAddress),
-      ]);
-      
-      // Use fallback geolocation if primary data is insufficient
-      let finalGeoData = geoData;
-      if (!geoData && !apiipData) {
-        const geoDbData = await fetchGeoIPDB(ipAddress);
-        if (geoDbData) finalGeoData = geoDbData;
+      const { username, password } = setupRequestSchema.parse(req.body);
+      // Checked again with the insert, in case another setup got there first
+      const created = await storage.createFirstUser({
+        username,
+        passwordHash: await hashPassword(password),
+        role: "admin",
+        createdAt: new Date(),
+        lastLoginAt: new Date(),
+      });
+      if (!created) {
+        return res.status(409).json({ error: "Setup has already been completed" });
       }
-      
-      const hasRealData = !!geoData || !!apiipData;
-      
-      let analysisData: InsertIpAnalysis;
-      if (hasRealData) {
-        analysisData = await generateRealAnalysis(ipAddress, geoData, abuseData, pyProxyData, apiipData);
-      } else {
-        // Fallback to mock
-        analysisData = {
-          ipAddress,
-          ipVersion: "IPv4",
-          riskScore: 15,
-          isVpn: false,
-          isProxy: false,
-          isTor: false,
-          isDatacenter: false,
-          threatLevel: "low",
-          vpnProvider: null,
-          isp: "Unknown ISP",
-          organization: "Unknown Organization",
-          asn: "AS0000",
-          country: "Unknown",
-          countryCode: "XX",
-          city: "Unknown",
-          region: "Unknown",
-          latitude: 0,
-          longitude: 0,
-          timezone: "UTC",
-          analyzedAt: new Date(),
-        };
+      const user = toPublicUser(created);
+      await logIn(req, user);
+      console.log(`✓ Created first admin account "${username}"`);
+      res.status(201).json(user);
+    } catch (error) {
+      console.error("Setup error:", error);
+      res.status(500).json({ error: "Failed to create account" });
+    }
+  });
+
+  // Everything below acts in the caller's workspace (req.workspaceId)
+  app.use("/api", resolveWorkspace);
+
+  app.get("/api/workspaces", requireScope("read"), async (req, res) => {
+    try {
+      const list: WorkspaceList = { current: req.workspaceId!, workspaces: await getOpenableWorkspaces(req) };
+      res.json(list);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to retrieve workspaces" });
+    }
+  });
+
+  // Switches the session's workspace; API keys stay in the one they were issued for
+  app.post("/api/workspaces/current", requireScope("read"), validateRequest(selectWorkspaceRequestSchema), async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(400).json({ error: "API keys can't switch workspaces" });
       }
-      
-      const analysis = await storage.createAnalysis(analysisData);
-      const whois = await storage.createWhoisRecord({
-        ipAddress,
-        domain: null,
-        registrar: "Unknown",
-        registrantName: "Network Administrator",
-        registrantOrg: analysisData.organization,
-        registrantCountry: analysisData.countryCode,
-        createdDate: "",
-        updatedDate: "",
-        expiresDate: null,
-        nameServers: [],
-        netRange: `${ipAddress}/24`,
-        netName: `NET-${ipAddress.split(".").slice(0, 2).join("-")}`,
-        netHandle: "HANDLE-0000",
-        originAs: analysisData.asn,
-        abuseContact: "",
-        techContact: "",
-        fetchedAt: new Date(),
-      });
-      
-      // Cache the result in Redis
-      const result = { analysis, whois, cached: false, source: "real" };
-      if (redis) {
-        const cacheKey = `analysis:${ipAddress}`;
-        try {
-          await redis.setex(cacheKey, CACHE_TTL, JSON.stringify(result));
-        } catch {
-          // Continue if cache fails
-        }
+      const { workspaceId } = selectWorkspaceRequestSchema.parse(req.body);
+      if (!(await storage.getWorkspace(workspaceId)) || !canOpenWorkspace(req.user, workspaceId)) {
+        return res.status(404).json({ error: "Workspace not found" });
+      }
+      req.session.workspaceId = workspaceId;
+      req.workspaceId = workspaceId;
+      const list: WorkspaceList = { current: workspaceId, workspaces: await getOpenableWorkspaces(req) };
+      res.json(list);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to switch workspace" });
+    }
+  });
+
+  app.post("/api/admin/workspaces", requireSessionRole("admin"), validateRequest(workspaceRequestSchema), async (req, res) => {
+    try {
+      const { name } = workspaceRequestSchema.parse(req.body);
+      if ((await storage.getWorkspaces()).some((w) => w.name === name)) {
+        return res.status(409).json({ error: `Workspace "${name}" already exists` });
+      }
+      const workspace = await storage.createWorkspace({ name, createdAt: new Date() });
+      console.log(`✓ Created workspace "${name}"`);
+      res.status(201).json(workspace);
+    } catch (error) {
+      console.error("Workspace creation error:", error);
+      res.status(500).json({ error: "Failed to create workspace" });
+    }
+  });
+
+  app.patch("/api/admin/workspaces/:id", requireSessionRole("admin"), validateRequest(workspaceRequestSchema), async (req, res) => {
+    try {
+      const { name } = workspaceRequestSchema.parse(req.body);
+      if ((await storage.getWorkspaces()).some((w) => w.name === name && w.id !== req.params.id)) {
+        return res.status(409).json({ error: `Workspace "${name}" already exists` });
+      }
+      const workspace = await storage.renameWorkspace(req.params.id, name);
+      if (!workspace) return res.status(404).json({ error: "Not found" });
+      res.json(workspace);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to rename workspace" });
+    }
+  });
+  
+  app.post("/api/analyze", requireScope("analyze"), validateRequest(analyzeIpRequestSchema), async (req, res) => {
+    try {
+      const ipAddress = canonicalizeIp(req.body.ipAddress);
+      if (!ipAddress) {
+        return res.status(400).json({ error: "Invalid IP address" });
       }
       
+      const result = await runAnalysis(req.workspaceId!, ipAddress, req.query.fresh === "true");
       res.json(result);
     } catch (error) {
       console.error("Analysis error:", error);
@@ -470,29 +317,37 @@ export async function registerRoutes(
     }
   });
   
-  app.get("/api/analyses", async (_req, res) => {
+  // Filtered, sorted, cursor-paginated history (see analysisQuerySchema)
+  app.get("/api/analyses", requireScope("read"), async (req, res) => {
+    const parsed = analysisQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Validation failed", details: parsed.error.errors });
+    }
+    const query = parsed.data;
+    if (query.cursor && !decodeAnalysisCursor(query.cursor, query.sort)) {
+      return res.status(400).json({ error: "Invalid cursor" });
+    }
     try {
-      const analyses = await storage.getAllAnalyses();
-      res.json(analyses);
+      res.json(await storage.queryAnalyses(req.workspaceId!, query));
     } catch (error) {
       res.status(500).json({ error: "Failed to retrieve analyses" });
     }
   });
-  
-  app.get("/api/analyses/:id", async (req, res) => {
+
+  app.get("/api/analyses/:id", requireScope("read"), async (req, res) => {
     try {
-      const analysis = await storage.getAnalysis(req.params.id);
+      const analysis = await storage.getAnalysis(req.workspaceId!, req.params.id);
       if (!analysis) return res.status(404).json({ error: "Not found" });
-      const whois = await storage.getWhoisByIp(analysis.ipAddress);
+      const whois = await storage.getWhoisByIp(req.workspaceId!, analysis.ipAddress);
       res.json({ analysis, whois });
     } catch (error) {
       res.status(500).json({ error: "Failed to retrieve analysis" });
     }
   });
   
-  app.delete("/api/analyses/:id", async (req, res) => {
+  app.delete("/api/analyses/:id", requireScope("admin"), async (req, res) => {
     try {
-      const deleted = await storage.deleteAnalysis(req.params.id);
+      const deleted = await storage.deleteAnalysis(req.workspaceId!, req.params.id);
       if (!deleted) return res.status(404).json({ error: "Not found" });
       res.json({ success: true });
     } catch (error) {
@@ -500,142 +355,454 @@ export async function registerRoutes(
     }
   });
 
-  // Clear Redis cache endpoint
-  app.post("/api/clear-cache", async (_req, res) => {
+  // Removes this app's entries only; other keys in a shared Redis are left alone.
+  // An API key only clears its own workspace's analyses.
+  app.post("/api/clear-cache", requireScope("admin"), async (req, res) => {
     try {
-      if (redis) {
-        await redis.flushdb();
-        console.log("✓ Redis cache cleared");
+      if (req.apiKey) {
+        await invalidateCache({}, req.workspaceId!);
+      } else {
+        await cache.clear();
       }
+      console.log("✓ Cache cleared");
       res.json({ success: true, message: "Cache cleared" });
     } catch (error) {
       res.status(500).json({ error: "Failed to clear cache" });
     }
   });
 
-  // Clear Redis cache on server startup (after connection ready)
-  if (redis) {
-    redis.on("ready", async () => {
-      try {
-        await redis!.flushdb();
-        console.log("✓ Redis cache cleared on startup");
-      } catch (e) {
-        console.log("⚠ Failed to clear Redis on startup:", e);
+  // Hit/miss counters and which backend is answering
+  app.get("/api/admin/cache", requireScope("admin"), (_req, res) => {
+    res.json(cache.stats());
+  });
+
+  // Cache browser: entries of every workspace, filtered like invalidation; an
+  // API key sees its own workspace's analyses only
+  app.get("/api/admin/cache/entries", requireScope("admin"), async (req, res) => {
+    const parsed = cacheFilterSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Validation failed", details: parsed.error.errors });
+    }
+    const filterError = getCacheFilterError(parsed.data);
+    if (filterError) {
+      return res.status(400).json({ error: filterError });
+    }
+    try {
+      res.json(await listCacheEntries(parsed.data, req.apiKey ? req.workspaceId! : undefined));
+    } catch (error) {
+      console.error("Cache listing error:", error);
+      res.status(500).json({ error: "Failed to list cache entries" });
+    }
+  });
+
+  // Targeted invalidation by IP, CIDR, provider and/or age
+  app.post("/api/admin/cache/invalidate", requireScope("admin"), validateRequest(cacheInvalidationRequestSchema), async (req, res) => {
+    const filter = cacheInvalidationRequestSchema.parse(req.body);
+    const filterError = getCacheFilterError(filter);
+    if (filterError) {
+      return res.status(400).json({ error: filterError });
+    }
+    try {
+      const removed = await invalidateCache(filter, req.apiKey ? req.workspaceId! : undefined);
+      console.log(`✓ Invalidated ${removed} cache entries`);
+      res.json({ removed });
+    } catch (error) {
+      console.error("Cache invalidation error:", error);
+      res.status(500).json({ error: "Failed to invalidate cache entries" });
+    }
+  });
+  
+  app.get("/api/providers", requireScope("read"), async (req, res) => {
+    try {
+      const workspace = await storage.getWorkspace(req.workspaceId!);
+      res.json(providers.list(workspace?.disabledProviders));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to retrieve providers" });
+    }
+  });
+
+  // Turns a provider on or off for the caller's workspace only
+  app.patch("/api/providers/:name", requireScope("admin"), validateRequest(z.object({
+    enabled: z.boolean(),
+  })), async (req, res) => {
+    try {
+      const provider = providers.get(req.params.name);
+      if (!provider) return res.status(404).json({ error: "Unknown provider" });
+      const workspace = await storage.setProviderEnabled(req.workspaceId!, provider.name, req.body.enabled);
+      res.json(providers.info(provider.name, workspace?.disabledProviders));
+    } catch (error) {
+      console.error("Provider update error:", error);
+      res.status(500).json({ error: "Failed to update provider" });
+    }
+  });
+  
+  app.get("/api/admin/users", requireSessionRole("admin"), async (_req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to retrieve users" });
+    }
+  });
+
+  app.post("/api/admin/users", requireSessionRole("admin"), validateRequest(createUserRequestSchema), async (req, res) => {
+    try {
+      const { username, password, role, workspaceIds = [req.workspaceId!] } = createUserRequestSchema.parse(req.body);
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ error: `User "${username}" already exists` });
       }
-    });
-  }
+      const unknown = await findUnknownWorkspace(workspaceIds);
+      if (unknown) return res.status(400).json({ error: `Unknown workspace "${unknown}"` });
+      const user = await storage.createUser({
+        username,
+        passwordHash: await hashPassword(password),
+        role,
+        workspaceIds,
+        createdAt: new Date(),
+      });
+      res.status(201).json(toPublicUser(user));
+    } catch (error) {
+      console.error("User creation error:", error);
+      res.status(500).json({ error: "Failed to create user" });
+    }
+  });
+
+  // Admins can't demote or delete themselves, so there is always one left
+  app.patch("/api/admin/users/:id", requireSessionRole("admin"), validateRequest(updateUserRequestSchema), async (req, res) => {
+    try {
+      const { role, password, workspaceIds } = updateUserRequestSchema.parse(req.body);
+      if (role && role !== "admin" && req.user?.id === req.params.id) {
+        return res.status(400).json({ error: "You can't change your own role" });
+      }
+      const unknown = workspaceIds && (await findUnknownWorkspace(workspaceIds));
+      if (unknown) return res.status(400).json({ error: `Unknown workspace "${unknown}"` });
+      const user = await storage.updateUser(req.params.id, {
+        ...(role && { role }),
+        ...(password && { passwordHash: await hashPassword(password) }),
+        ...(workspaceIds && { workspaceIds }),
+      });
+      if (!user) return res.status(404).json({ error: "Not found" });
+      res.json(toPublicUser(user));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update user" });
+    }
+  });
+
+  app.delete("/api/admin/users/:id", requireSessionRole("admin"), async (req, res) => {
+    try {
+      if (req.user?.id === req.params.id) {
+        return res.status(400).json({ error: "You can't delete your own account" });
+      }
+      const deleted = await storage.deleteUser(req.params.id);
+      if (!deleted) return res.status(404).json({ error: "Not found" });
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete user" });
+    }
+  });
+
+  // Keys of the current workspace only
+  app.get("/api/admin/api-keys", requireScope("admin"), async (req, res) => {
+    try {
+      const keys = await storage.getApiKeys(req.workspaceId!);
+      res.json(keys.map(toPublicApiKey));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to retrieve API keys" });
+    }
+  });
+
+  // The key itself is only ever returned here
+  app.post("/api/admin/api-keys", requireScope("admin"), validateRequest(createApiKeyRequestSchema), async (req, res) => {
+    try {
+      const created = await issueApiKey(req.workspaceId!, createApiKeyRequestSchema.parse(req.body));
+      res.locals.omitBodyFromLog = true;
+      res.status(201).json(created);
+    } catch (error) {
+      console.error("API key creation error:", error);
+      res.status(500).json({ error: "Failed to create API key" });
+    }
+  });
+
+  // Revoked keys stay listed, with their usage, but are rejected
+  app.delete("/api/admin/api-keys/:id", requireScope("admin"), async (req, res) => {
+    try {
+      const key = await storage.revokeApiKey(req.workspaceId!, req.params.id);
+      if (!key) return res.status(404).json({ error: "Not found" });
+      res.json(toPublicApiKey(key));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to revoke API key" });
+    }
+  });
+
+  app.get("/api/admin/scoring-policy", requireScope("admin"), async (req, res) => {
+    try {
+      res.json(await getScoringPolicy(req.workspaceId!));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to retrieve scoring policy" });
+    }
+  });
+
+  app.get("/api/admin/scoring-policy/history", requireScope("admin"), async (req, res) => {
+    try {
+      res.json(await getScoringPolicyHistory(req.workspaceId!));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to retrieve scoring policy history" });
+    }
+  });
+
+  app.put("/api/admin/scoring-policy", requireScope("admin"), validateRequest(updateScoringPolicySchema), async (req, res) => {
+    try {
+      const policy = await updateScoringPolicy(req.workspaceId!, updateScoringPolicySchema.parse(req.body));
+      res.json(policy);
+    } catch (error) {
+      console.error("Scoring policy update error:", error);
+      res.status(500).json({ error: "Failed to update scoring policy" });
+    }
+  });
+  
+  app.get("/api/admin/ranges", requireScope("admin"), async (req, res) => {
+    try {
+      res.json(await getRangeStats(req.workspaceId!));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to retrieve ranges" });
+    }
+  });
+
+  app.get("/api/admin/ranges/lookup/:ipAddress", requireScope("admin"), async (req, res) => {
+    const ipAddress = canonicalizeIp(req.params.ipAddress);
+    if (!ipAddress) {
+      return res.status(400).json({ error: "Invalid IP" });
+    }
+    try {
+      const asn = typeof req.query.asn === "string" ? req.query.asn : undefined;
+      const lookupRange = await getRangeLookup(req.workspaceId!);
+      res.json({ ipAddress, match: lookupRange(ipAddress, asn) });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to look up ranges" });
+    }
+  });
+
+  const importRangesSchema = z.discriminatedUnion("format", [
+    z.object({ format: z.literal("csv"), content: z.string().min(1) }),
+    z.object({
+      format: z.literal("text"),
+      content: z.string().min(1),
+      provider: z.string().min(1),
+      category: rangeCategorySchema,
+    }),
+  ]);
+
+  // Imports apply to the caller's workspace; the lists in RANGES_DIR are shared
+  app.post("/api/admin/ranges/import", requireScope("admin"), validateRequest(importRangesSchema), async (req, res) => {
+    try {
+      const body = importRangesSchema.parse(req.body);
+      const summary = body.format === "csv"
+        ? await importRangeList(req.workspaceId!, "csv", body.content)
+        : await importRangeList(req.workspaceId!, "text", body.content, { provider: body.provider, category: body.category });
+      res.json({ ...summary, ...(await getRangeStats(req.workspaceId!)) });
+    } catch (error) {
+      console.error("Range import error:", error);
+      res.status(500).json({ error: "Failed to import ranges" });
+    }
+  });
+
+  app.post("/api/admin/ranges/reload", requireSessionRole("admin"), async (_req, res) => {
+    try {
+      const db = await loadRangeDatabase();
+      res.json(db.stats());
+    } catch (error) {
+      res.status(500).json({ error: "Failed to reload ranges" });
+    }
+  });
   
-  app.get("/api/stats", async (_req, res) => {
+  app.get("/api/tor/status", requireScope("read"), async (_req, res) => {
     try {
-      const stats = await storage.getStats();
+      res.json(await storage.getTorExitListStatus());
+    } catch (error) {
+      res.status(500).json({ error: "Failed to retrieve Tor exit list status" });
+    }
+  });
+
+  // Import from pasted content, a URL, or the Tor Project's list when neither is given
+  app.post("/api/admin/tor/import", requireSessionRole("admin"), validateRequest(z.object({
+    url: z.string().url().optional(),
+    content: z.string().min(1).optional(),
+  })), async (req, res) => {
+    try {
+      const { url, content } = req.body;
+      const result = content
+        ? await importTorExitList(content)
+        : await importTorExitListFromUrl(url || DEFAULT_TOR_EXIT_LIST_URL);
+      res.json({ ...result, status: await storage.getTorExitListStatus() });
+    } catch (error) {
+      console.error("Tor exit list import error:", error);
+      // Bad pasted content is the caller's fault; a failed download is upstream's
+      res.status(req.body.content ? 400 : 502).json({ error: error instanceof Error ? error.message : "Failed to import Tor exit list" });
+    }
+  });
+  
+  app.get("/api/stats", requireScope("read"), async (req, res) => {
+    try {
+      const stats = await storage.getStats(req.workspaceId!, (await getScoringPolicy(req.workspaceId!)).stats);
       res.json(stats);
     } catch (error) {
       res.status(500).json({ error: "Failed to retrieve stats" });
     }
   });
   
-  app.get("/api/whois/:ipAddress", async (req, res) => {
+  app.get("/api/whois/:ipAddress", requireScope("read"), async (req, res) => {
     try {
-      const { ipAddress } = req.params;
-      if (!isValidIpAddress(ipAddress)) {
+      const ipAddress = canonicalizeIp(req.params.ipAddress);
+      if (!ipAddress) {
         return res.status(400).json({ error: "Invalid IP" });
       }
-      const whois = await storage.getWhoisByIp(ipAddress);
+      const whois = await storage.getWhoisByIp(req.workspaceId!, ipAddress);
       res.json(whois || { ipAddress, message: "No WHOIS data found" });
     } catch (error) {
       res.status(500).json({ error: "Failed to retrieve WHOIS" });
     }
   });
 
-  // Bulk IP analysis
-  app.post("/api/bulk-analyze", validateRequest(z.object({
-    ips: z.array(z.string()).min(1).max(100),
-  })), async (req, res) => {
+  // Registration changes for an address, newest first
+  app.get("/api/whois/:ipAddress/history", requireScope("read"), async (req, res) => {
     try {
-      const { ips } = req.body;
-      const validIps = ips.filter(ip => isValidIpAddress(ip));
-      
+      const ipAddress = canonicalizeIp(req.params.ipAddress);
+      if (!ipAddress) {
+        return res.status(400).json({ error: "Invalid IP" });
+      }
+      const records = await storage.getWhoisHistory(req.workspaceId!, ipAddress);
+      res.json(buildWhoisTimeline(records));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to retrieve WHOIS history" });
+    }
+  });
+
+  // Versions of one network, whichever addresses it was looked up for
+  app.get("/api/whois/handle/:netHandle/history", requireScope("read"), async (req, res) => {
+    try {
+      const records = await storage.getWhoisHistoryByHandle(req.workspaceId!, req.params.netHandle);
+      res.json(buildWhoisTimeline(records));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to retrieve WHOIS history" });
+    }
+  });
+
+  // Latest stored scan of an address, shaped like GET /api/analyses/:id
+  app.get("/api/ip/:ipAddress", requireScope("read"), async (req, res) => {
+    try {
+      const ipAddress = canonicalizeIp(req.params.ipAddress);
+      if (!ipAddress) {
+        return res.status(400).json({ error: "Invalid IP" });
+      }
+      const analysis = await storage.getAnalysisByIp(req.workspaceId!, ipAddress);
+      if (!analysis) return res.status(404).json({ error: "Not found" });
+      const whois = await storage.getWhoisByIp(req.workspaceId!, analysis.ipAddress);
+      res.json({ analysis, whois });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to retrieve analysis" });
+    }
+  });
+
+  // Every scan of one address with what changed between consecutive scans, newest first
+  app.get("/api/ip/:ipAddress/timeline", requireScope("read"), async (req, res) => {
+    try {
+      const ipAddress = canonicalizeIp(req.params.ipAddress);
+      if (!ipAddress) {
+        return res.status(400).json({ error: "Invalid IP" });
+      }
+      const analyses = await storage.getAnalysesByIp(req.workspaceId!, ipAddress);
+      res.json(buildAnalysisTimeline(analyses));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to retrieve IP timeline" });
+    }
+  });
+
+  // Bulk IP analysis runs as a background job; poll or stream its progress
+  app.post("/api/bulk-analyze", requireScope("analyze"), validateRequest(bulkAnalyzeRequestSchema), async (req, res) => {
+    try {
+      const { ips } = bulkAnalyzeRequestSchema.parse(req.body);
+      // Canonical forms, so differently written copies of one address are analyzed once
+      const canonical = ips.map(canonicalizeIp);
+      const validIps = Array.from(new Set(canonical.filter((ip): ip is string => ip !== null)));
+
       if (validIps.length === 0) {
         return res.status(400).json({ error: "No valid IP addresses provided" });
       }
-
-      const analyses: any[] = [];
-      
-      for (const ip of validIps as string[]) {
-        try {
-          // Check cache first
-          let cacheKey = `analysis:${ip}`;
-          let cached = null;
-          if (redis) {
-            try {
-              cached = await redis.get(cacheKey);
-            } catch (e) {
-              // Continue if cache fails
-            }
-          }
-          
-          if (cached) {
-            analyses.push(JSON.parse(cached));
-            continue;
-          }
-
-          // Fetch from APIs
-          const [geoData, abuseData, pyProxyData, apiipData] = await Promise.all([
-            fetchIPGeolocation(ip),
-            fetchAbuseIPDB(ip),
-            fetchPyProxy(ip),
-            fetchAPIIP(ip),
-          ]);
-
-          // Use fallback geolocation if primary data is insufficient
-          let bulkGeoData = geoData;
-          if (!geoData && !apiipData) {
-            const geoDbData = await fetchGeoIPDB(ip);
-            if (geoDbData) bulkGeoData = geoDbData;
-          }
-
-          const analysisData = await generateRealAnalysis(ip, bulkGeoData, abuseData, pyProxyData, apiipData);
-          const analysis = await storage.createAnalysis(analysisData);
-          const whois = await storage.createWhoisRecord({
-            ipAddress: ip,
-            domain: null,
-            registrar: "Unknown",
-            registrantName: "Network Administrator",
-            registrantOrg: analysisData.organization,
-            registrantCountry: analysisData.countryCode,
-            createdDate: "",
-            updatedDate: "",
-            expiresDate: null,
-            nameServers: [],
-            netRange: `${ip}/24`,
-            netName: `NET-${ip.split(".").slice(0, 2).join("-")}`,
-            netHandle: "HANDLE-0000",
-            originAs: analysisData.asn,
-            abuseContact: "",
-            techContact: "",
-            fetchedAt: new Date(),
-          });
-
-          const result = { analysis, whois, cached: false, source: "real" };
-          if (redis) {
-            try {
-              await redis.setex(cacheKey, CACHE_TTL, JSON.stringify(result));
-            } catch (e) {
-              // Continue if cache fails
-            }
-          }
-          
-          analyses.push(result);
-        } catch (ipError) {
-          console.error(`Error analyzing ${ip}:`, ipError);
-          // Continue with next IP
-        }
+      // Every address costs a quota unit; the request itself paid for one
+      if (!(await chargeApiKey(req, res, validIps.length - 1))) {
+        return res.status(429).json({ error: `Daily quota can't cover analyzing ${validIps.length} addresses` });
       }
 
-      res.json({ analyses, total: validIps.length, completed: analyses.length });
+      const workspaceId = req.workspaceId!;
+      const job = createBulkJob(workspaceId, validIps, (ip) => runAnalysis(workspaceId, ip));
+      res.status(202).json({ jobId: job.id, total: job.total, invalid: canonical.filter((ip) => ip === null).length });
     } catch (error) {
       console.error("Bulk analysis error:", error);
-      res.status(500).json({ error: "Failed to perform bulk analysis" });
+      res.status(500).json({ error: "Failed to start bulk analysis" });
+    }
+  });
+
+  app.get("/api/jobs/:id", requireScope("read"), (req, res) => {
+    const job = getJob(req.workspaceId!, req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+    res.json(job);
+  });
+
+  // Server-sent events: a "snapshot" of the job, an "item" per finished
+  // address, then "done"
+  app.get("/api/jobs/:id/events", requireScope("read"), (req, res) => {
+    const job = getJob(req.workspaceId!, req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    const send = (event: string, data: unknown) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+    send("snapshot", job);
+    if (job.status === "completed") {
+      send("done", summarizeJob(job));
+      return res.end();
+    }
+
+    const onEvent = ({ event, data }: JobEvent) => {
+      send(event, data);
+      if (event === "done") res.end();
+    };
+    jobEvents.on(job.id, onEvent);
+    req.on("close", () => jobEvents.off(job.id, onEvent));
+  });
+
+  // Aggregated report for a whole prefix, e.g. 203.0.113.0/24 or 2001:db8::/120.
+  // Small samples are answered directly; larger ones run as a job whose
+  // progress streams from /api/jobs/:id/events and whose report is on the job.
+  app.post("/api/subnet-scan", requireScope("analyze"), validateRequest(subnetScanRequestSchema), async (req, res) => {
+    try {
+      const { cidr: input, sampleSize = DEFAULT_SUBNET_SAMPLE_SIZE } = subnetScanRequestSchema.parse(req.body);
+      const cidr = parseCidr(input);
+      if (!cidr) {
+        return res.status(400).json({ error: "Invalid CIDR" });
+      }
+      // Every sampled address costs a quota unit; the request itself paid for one
+      const ips = selectSubnetAddresses(cidr, sampleSize);
+      if (!(await chargeApiKey(req, res, ips.length - 1))) {
+        return res.status(429).json({ error: `Daily quota can't cover scanning ${ips.length} addresses` });
+      }
+      if (ips.length <= MAX_SYNC_SUBNET_SAMPLE_SIZE) {
+        return res.json(await scanSubnet(req.workspaceId!, cidr, ips));
+      }
+      const job = startSubnetScanJob(req.workspaceId!, cidr, ips);
+      const accepted: SubnetScanJob = { jobId: job.id, total: job.total };
+      res.status(202).json(accepted);
+    } catch (error) {
+      console.error("Subnet scan error:", error);
+      res.status(500).json({ error: "Failed to scan subnet" });
     }
   });
 
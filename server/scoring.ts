@@ -0,0 +1,134 @@
+import fs from "fs/promises";
+import path from "path";
+import {
+  scoringPolicySchema,
+  DEFAULT_THREAT_THRESHOLDS,
+  type RiskSignal,
+  type ScoringPolicy,
+  type UpdateScoringPolicy,
+} from "@shared/schema";
+import { storage } from "./storage";
+
+// Starting policy of every workspace, stored as its first version when the
+// workspace's policy is first updated
+const POLICY_PATH = path.resolve(process.env.SCORING_POLICY_PATH || "config/scoring-policy.json");
+// A workspace's stored versions are re-read once this old, so an update made
+// through another instance takes effect here too
+const POLICY_REFRESH_MS = 60 * 1000;
+// Tries at storing an update while other instances keep taking the next version
+const MAX_UPDATE_ATTEMPTS = 5;
+
+// Used when there is no policy file either. "max" signals compete for the base
+// score, "add" signals are added on top of it.
+export const DEFAULT_SCORING_POLICY: ScoringPolicy = {
+  version: 1,
+  updatedAt: new Date(0).toISOString(),
+  weights: {
+    vpn: 75,
+    proxy: 70,
+    tor: 95,
+    datacenter: 45,
+    abuseConfidenceFactor: 0.9,
+    abuseReports: 15,
+    abuseReportsThreshold: 3,
+  },
+  thresholds: DEFAULT_THREAT_THRESHOLDS,
+  stats: {
+    threatMinScore: 50,
+    cleanMaxScore: 30,
+  },
+};
+
+// What a workspace without stored versions uses
+let startingPolicy: ScoringPolicy = DEFAULT_SCORING_POLICY;
+// Each workspace's versions, oldest first, as last read from storage
+const workspacePolicies = new Map<string, { versions: ScoringPolicy[]; stored: boolean; loadedAt: number }>();
+// Updates run one at a time, so concurrent PUTs can't lose a history entry
+let pendingUpdate: Promise<unknown> = Promise.resolve();
+
+async function readPolicyFile(): Promise<ScoringPolicy> {
+  try {
+    const policy = scoringPolicySchema.parse(JSON.parse(await fs.readFile(POLICY_PATH, "utf-8")));
+    console.log(`✓ Loaded scoring policy v${policy.version} from ${POLICY_PATH}`);
+    return policy;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      console.log(`⚠ No scoring policy at ${POLICY_PATH}, using built-in defaults`);
+    } else {
+      console.log("⚠ Invalid scoring policy, using built-in defaults:", error);
+    }
+    return DEFAULT_SCORING_POLICY;
+  }
+}
+
+export async function loadScoringPolicy(): Promise<ScoringPolicy> {
+  startingPolicy = await readPolicyFile();
+  workspacePolicies.clear();
+  return startingPolicy;
+}
+
+// Read again once POLICY_REFRESH_MS old, or when `refresh` is set
+async function getVersions(workspaceId: string, refresh = false) {
+  const cached = workspacePolicies.get(workspaceId);
+  if (cached && !refresh && Date.now() - cached.loadedAt < POLICY_REFRESH_MS) {
+    return cached;
+  }
+  const stored = await storage.getScoringPolicies(workspaceId);
+  const entry = stored.length > 0
+    ? { versions: stored, stored: true, loadedAt: Date.now() }
+    : { versions: [startingPolicy], stored: false, loadedAt: Date.now() };
+  workspacePolicies.set(workspaceId, entry);
+  return entry;
+}
+
+export async function getScoringPolicy(workspaceId: string): Promise<ScoringPolicy> {
+  const { versions } = await getVersions(workspaceId);
+  return versions[versions.length - 1];
+}
+
+// All known versions, oldest first, ending with the active one
+export async function getScoringPolicyHistory(workspaceId: string): Promise<ScoringPolicy[]> {
+  return [...(await getVersions(workspaceId)).versions];
+}
+
+export function updateScoringPolicy(workspaceId: string, update: UpdateScoringPolicy): Promise<ScoringPolicy> {
+  const result = pendingUpdate.then(() => applyScoringPolicy(workspaceId, update));
+  pendingUpdate = result.catch(() => undefined);
+  return result;
+}
+
+// Starts from the workspace's newest stored version; if another instance
+// stores the same version number first, the update is retried on top of that one
+async function applyScoringPolicy(workspaceId: string, update: UpdateScoringPolicy): Promise<ScoringPolicy> {
+  for (let attempt = 1; ; attempt++) {
+    const { versions, stored } = await getVersions(workspaceId, true);
+    const current = versions[versions.length - 1];
+    // The starting policy becomes the workspace's first stored version, so
+    // analyses scored with it stay explainable
+    if (!stored) await storage.addScoringPolicy(workspaceId, current);
+    const next = scoringPolicySchema.parse({
+      ...update,
+      version: current.version + 1,
+      updatedAt: new Date().toISOString(),
+    });
+    if (await storage.addScoringPolicy(workspaceId, next)) {
+      workspacePolicies.set(workspaceId, { versions: [...versions, next], stored: true, loadedAt: Date.now() });
+      console.log(`✓ Scoring policy of workspace ${workspaceId} updated to v${next.version}`);
+      return next;
+    }
+    if (attempt === MAX_UPDATE_ATTEMPTS) {
+      throw new Error("Scoring policy kept changing during the update");
+    }
+  }
+}
+
+// Base score is the strongest "max" signal; "add" signals stack on top, capped at 100
+export function scoreSignals(signals: RiskSignal[]): number {
+  const base = signals
+    .filter((s) => s.mode === "max")
+    .reduce((max, s) => Math.max(max, s.weight), 0);
+  const bonus = signals
+    .filter((s) => s.mode === "add")
+    .reduce((sum, s) => sum + s.weight, 0);
+  return Math.min(100, Math.max(0, Math.round(base + bonus)));
+}
@@ -1,30 +1,98 @@
-import mongoose from "mongoose";
+import mongoose, { type InferSchemaType, type QueryFilter } from "mongoose";
+import path from "path";
+import fs from "fs/promises";
+import { Pool } from "pg";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import { and, asc, count, desc, eq, gt, gte, ilike, inArray, isNull, lt, lte, max, or, sql, type SQL } from "drizzle-orm";
 import {
+  DEFAULT_WORKSPACE_ID,
+  workspaces,
+  ipAnalyses,
+  whoisRecords,
+  torExitNodes,
+  apiKeys,
+  users,
+  scoringPolicies,
+  scoringPolicySchema,
+  rangeImports,
+  type Workspace,
+  type InsertWorkspace,
   type IpAnalysis,
   type InsertIpAnalysis,
   type WhoisRecord,
   type InsertWhoisRecord,
   type ScanStats,
+  type TorExitNode,
+  type InsertTorExitNode,
+  type TorExitListStatus,
+  type ApiKey,
+  type InsertApiKey,
+  type User,
+  type InsertUser,
+  type AnalysisQuery,
+  type AnalysisPage,
+  type AnalysisSortField,
+  type ThreatLevel,
+  type ScoringPolicy,
+  type RangeImport,
+  type InsertRangeImport,
+  diffWhoisRecords,
 } from "@shared/schema";
+import { canonicalizeIp } from "@shared/ip";
 import { randomUUID } from "crypto";
 
-const MONGODB_URL = process.env.MONGODB_URI || process.env.DATABASE_URL || "mongodb://localhost/vpn-detector";
+// MongoDB connection string, under either name deployments have used
+const MONGODB_CONNECTION = process.env.MONGODB_URL || process.env.MONGODB_URI;
+// DATABASE_URL is Postgres on Replit (see drizzle.config.ts)
+const POSTGRES_CONNECTION = /^postgres(ql)?:\/\//.test(process.env.DATABASE_URL ?? "") ? process.env.DATABASE_URL : undefined;
+// Explicit choice of backend; without one, whichever database has a connection
+// string (Postgres first), else memory (which doesn't survive a restart)
+export const STORAGE_BACKEND = process.env.STORAGE_BACKEND
+  || (POSTGRES_CONNECTION ? "postgres" : MONGODB_CONNECTION ? "mongo" : "memory");
+const MONGODB_URL = MONGODB_CONNECTION || "mongodb://localhost/vpn-detector";
+const MIGRATIONS_DIR = path.resolve(process.env.MIGRATIONS_DIR || "migrations");
+// Optional JSON file the in-memory backend loads on startup and keeps up to date
+const MEMORY_SNAPSHOT_PATH = process.env.MEMORY_SNAPSHOT_PATH;
+const SNAPSHOT_DEBOUNCE_MS = 1000;
+// Rows per INSERT; keeps a full exit list well under Postgres' bind parameter limit
+const TOR_UPSERT_BATCH = 1000;
 
-let useDatabase = false;
+// Records are keyed by the canonical address, however it was typed
+function ipKey(ipAddress: string): string {
+  return canonicalizeIp(ipAddress) ?? ipAddress;
+}
+
+const riskSignalSchema = new mongoose.Schema({
+  source: String,
+  signal: String,
+  weight: Number,
+  mode: String,
+  value: mongoose.Schema.Types.Mixed,
+  match: String,
+}, { _id: false });
 
-// In-memory storage as fallback
-const memoryAnalyses = new Map<string, IpAnalysis>();
-const memoryWhois = new Map<string, WhoisRecord>();
+const workspaceSchema = new mongoose.Schema({
+  _id: String,
+  name: { type: String, unique: true },
+  createdAt: Date,
+  disabledProviders: { type: [String], default: [] },
+});
 
 const analysisSchema = new mongoose.Schema({
+  workspaceId: String,
   ipAddress: String,
   ipVersion: String,
+  addressClass: { type: String, default: "public" },
   riskScore: Number,
   isVpn: Boolean,
   isProxy: Boolean,
   isTor: Boolean,
   isDatacenter: Boolean,
   threatLevel: String,
+  vpnProvider: String,
   isp: String,
   organization: String,
   asn: String,
@@ -35,10 +103,14 @@ const analysisSchema = new mongoose.Schema({
   latitude: Number,
   longitude: Number,
   timezone: String,
+  signals: [riskSignalSchema],
+  policyVersion: Number,
   analyzedAt: Date,
 }, { timestamps: true });
+analysisSchema.index({ workspaceId: 1, ipAddress: 1, analyzedAt: 1 });
 
 const whoisSchema = new mongoose.Schema({
+  workspaceId: String,
   ipAddress: String,
   domain: String,
   registrar: String,
@@ -55,93 +127,854 @@ const whoisSchema = new mongoose.Schema({
   originAs: String,
   abuseContact: String,
   techContact: String,
+  rawText: String,
+  version: { type: Number, default: 1 },
   fetchedAt: Date,
+  lastSeenAt: Date,
 }, { timestamps: true });
+whoisSchema.index({ workspaceId: 1, ipAddress: 1, fetchedAt: 1 });
+whoisSchema.index({ workspaceId: 1, netHandle: 1, fetchedAt: 1 });
+
+const torExitNodeSchema = new mongoose.Schema({
+  ipAddress: { type: String, unique: true },
+  fingerprint: String,
+  firstSeen: Date,
+  lastSeen: Date,
+  importedAt: Date,
+});
+
+const apiKeySchema = new mongoose.Schema({
+  workspaceId: String,
+  name: String,
+  prefix: String,
+  keyHash: { type: String, unique: true },
+  scopes: [String],
+  dailyQuota: { type: Number, default: null },
+  requestCount: { type: Number, default: 0 },
+  usageToday: { type: Number, default: 0 },
+  usageDate: { type: String, default: null },
+  lastUsedAt: { type: Date, default: null },
+  createdAt: Date,
+  revokedAt: { type: Date, default: null },
+});
+
+const userSchema = new mongoose.Schema({
+  username: { type: String, unique: true },
+  passwordHash: String,
+  role: String,
+  workspaceIds: [String],
+  createdAt: Date,
+  lastLoginAt: { type: Date, default: null },
+  // Set only on the account created by first-run setup; the unique index
+  // stops a concurrent setup from creating a second one
+  firstAdmin: { type: Boolean, unique: true, sparse: true },
+});
+
+const scoringPolicyDocSchema = new mongoose.Schema({
+  workspaceId: String,
+  version: Number,
+  policy: mongoose.Schema.Types.Mixed,
+});
+scoringPolicyDocSchema.index({ workspaceId: 1, version: 1 }, { unique: true });
 
+const rangeImportSchema = new mongoose.Schema({
+  workspaceId: { type: String, index: true },
+  format: String,
+  content: String,
+  provider: { type: String, default: null },
+  category: { type: String, default: null },
+  importedAt: Date,
+});
+
+const WorkspaceModel = mongoose.model("Workspace", workspaceSchema);
 const AnalysisModel = mongoose.model("Analysis", analysisSchema);
+// Filters on stored analyses, without the Query form mongoose also accepts
+type AnalysisFilter = Exclude<QueryFilter<InferSchemaType<typeof analysisSchema>>, mongoose.Query<unknown, unknown>>;
+type AnalysisConditions = NonNullable<AnalysisFilter["$and"]>;
 const WhoisModel = mongoose.model("Whois", whoisSchema);
+const TorExitNodeModel = mongoose.model("TorExitNode", torExitNodeSchema);
+const ApiKeyModel = mongoose.model("ApiKey", apiKeySchema);
+const UserModel = mongoose.model("User", userSchema);
+const ScoringPolicyModel = mongoose.model("ScoringPolicy", scoringPolicyDocSchema);
+const RangeImportModel = mongoose.model("RangeImport", rangeImportSchema);
+
+function toWorkspace(doc: InstanceType<typeof WorkspaceModel>): Workspace {
+  const { _id, __v, ...workspace } = doc.toObject();
+  return { ...workspace, id: _id } as Workspace;
+}
+
+function toAnalysis(doc: InstanceType<typeof AnalysisModel>): IpAnalysis {
+  return { ...doc.toObject(), id: doc._id.toString() } as IpAnalysis;
+}
 
+function toWhoisRecord(doc: InstanceType<typeof WhoisModel>): WhoisRecord {
+  return { ...doc.toObject(), id: doc._id.toString() } as WhoisRecord;
+}
+
+function toApiKey(doc: InstanceType<typeof ApiKeyModel>): ApiKey {
+  const { _id, __v, ...key } = doc.toObject();
+  return { ...key, id: _id.toString() } as ApiKey;
+}
+
+function toRangeImport(doc: InstanceType<typeof RangeImportModel>): RangeImport {
+  const { _id, __v, ...rangeImport } = doc.toObject();
+  return { ...rangeImport, id: _id.toString() } as RangeImport;
+}
+
+function toUser(doc: InstanceType<typeof UserModel>): User {
+  const { _id, __v, firstAdmin, ...user } = doc.toObject();
+  return { ...user, id: _id.toString() } as User;
+}
+
+export type UserChanges = Partial<Pick<User, "role" | "passwordHash" | "workspaceIds" | "lastLoginAt">>;
+
+// Analyses, WHOIS records and API keys belong to a workspace: the methods for
+// them take its id first and never see another workspace's rows
 export interface IStorage {
   connect(): Promise<void>;
-  createAnalysis(analysis: InsertIpAnalysis): Promise<IpAnalysis>;
-  getAnalysis(id: string): Promise<IpAnalysis | undefined>;
-  getAnalysisByIp(ipAddress: string): Promise<IpAnalysis | undefined>;
-  getAllAnalyses(): Promise<IpAnalysis[]>;
-  deleteAnalysis(id: string): Promise<boolean>;
-  createWhoisRecord(record: InsertWhoisRecord): Promise<WhoisRecord>;
-  getWhoisByIp(ipAddress: string): Promise<WhoisRecord | undefined>;
-  getStats(): Promise<ScanStats>;
+  createWorkspace(workspace: InsertWorkspace, id?: string): Promise<Workspace>;
+  getWorkspace(id: string): Promise<Workspace | undefined>;
+  getWorkspaces(): Promise<Workspace[]>;
+  renameWorkspace(id: string, name: string): Promise<Workspace | undefined>;
+  // Adds the provider to, or removes it from, the workspace's disabledProviders
+  setProviderEnabled(workspaceId: string, provider: string, enabled: boolean): Promise<Workspace | undefined>;
+  createAnalysis(workspaceId: string, analysis: InsertIpAnalysis): Promise<IpAnalysis>;
+  getAnalysis(workspaceId: string, id: string): Promise<IpAnalysis | undefined>;
+  getAnalysisByIp(workspaceId: string, ipAddress: string): Promise<IpAnalysis | undefined>;
+  getAnalysesByIp(workspaceId: string, ipAddress: string): Promise<IpAnalysis[]>;
+  queryAnalyses(workspaceId: string, query: AnalysisQuery): Promise<AnalysisPage>;
+  deleteAnalysis(workspaceId: string, id: string): Promise<boolean>;
+  createWhoisRecord(workspaceId: string, record: InsertWhoisRecord): Promise<WhoisRecord>;
+  getWhoisByIp(workspaceId: string, ipAddress: string): Promise<WhoisRecord | undefined>;
+  getWhoisHistory(workspaceId: string, ipAddress: string): Promise<WhoisRecord[]>;
+  getWhoisHistoryByHandle(workspaceId: string, netHandle: string): Promise<WhoisRecord[]>;
+  // Counts threats and clean addresses by the given scoring policy cut-offs
+  getStats(workspaceId: string, stats: ScoringPolicy["stats"]): Promise<ScanStats>;
+  upsertTorExitNodes(nodes: InsertTorExitNode[]): Promise<number>;
+  getTorExitNode(ipAddress: string): Promise<TorExitNode | undefined>;
+  pruneTorExitNodes(lastSeenBefore: Date): Promise<number>;
+  getTorExitListStatus(): Promise<TorExitListStatus>;
+  // Every stored version of the workspace's scoring policy, oldest first
+  getScoringPolicies(workspaceId: string): Promise<ScoringPolicy[]>;
+  // False, with nothing stored, when the workspace has that version already,
+  // e.g. because another instance saved an update first
+  addScoringPolicy(workspaceId: string, policy: ScoringPolicy): Promise<boolean>;
+  addRangeImport(workspaceId: string, data: InsertRangeImport): Promise<RangeImport>;
+  // Oldest first
+  getRangeImports(workspaceId: string): Promise<RangeImport[]>;
+  createApiKey(workspaceId: string, key: InsertApiKey): Promise<ApiKey>;
+  getApiKeys(workspaceId: string): Promise<ApiKey[]>;
+  // Across workspaces: the key tells which workspace a request is for
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined>;
+  revokeApiKey(workspaceId: string, id: string): Promise<ApiKey | undefined>;
+  // Count `units` (one per request) against the key's quota for `day` (UTC,
+  // YYYY-MM-DD). Null, with nothing counted, when that day's quota can't cover them.
+  consumeApiKeyQuota(id: string, day: string, at: Date, units?: number): Promise<ApiKey | null>;
+  createUser(user: InsertUser): Promise<User>;
+  // Undefined, with nothing stored, once any account exists; the check and the
+  // insert are atomic, so concurrent first-run setups create one admin
+  createFirstUser(user: InsertUser): Promise<User | undefined>;
+  getUser(id: string): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  getUsers(): Promise<User[]>;
+  countUsers(): Promise<number>;
+  updateUser(id: string, changes: UserChanges): Promise<User | undefined>;
+  deleteUser(id: string): Promise<boolean>;
+  // Login sessions kept alongside the data; without one they stay in memory
+  createSessionStore?(): session.Store;
+}
+
+// Keyset cursor: sort value and id of the last row already returned. Dates
+// are carried as epoch milliseconds.
+interface AnalysisCursor {
+  value: string | number;
+  id: string;
+}
+
+function sortValue(analysis: IpAnalysis, sort: AnalysisSortField): string | number {
+  return sort === "analyzedAt" ? new Date(analysis.analyzedAt).getTime() : analysis[sort];
+}
+
+function encodeAnalysisCursor(analysis: IpAnalysis, sort: AnalysisSortField): string {
+  const cursor: AnalysisCursor = { value: sortValue(analysis, sort), id: analysis.id };
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+export function decodeAnalysisCursor(cursor: string, sort: AnalysisSortField): AnalysisCursor | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+    const expected = sort === "ipAddress" ? "string" : "number";
+    if (typeof decoded?.id !== "string" || typeof decoded.value !== expected) return null;
+    return { value: decoded.value, id: decoded.id };
+  } catch {
+    return null;
+  }
+}
+
+// Stored ASNs look like "AS15169"; accept "15169" too
+function normalizeAsn(asn: string): string {
+  return `AS${asn.replace(/^AS/i, "")}`;
+}
+
+function containsText(value: string | null | undefined, needle: string): boolean {
+  return !!value && value.toLowerCase().includes(needle.toLowerCase());
+}
+
+// In-memory equivalent of the database filters
+function matchesAnalysisQuery(a: IpAnalysis, query: AnalysisQuery): boolean {
+  const analyzedAt = new Date(a.analyzedAt);
+  return (
+    (!query.threatLevel?.length || query.threatLevel.includes(a.threatLevel as ThreatLevel)) &&
+    (query.isVpn === undefined || a.isVpn === query.isVpn) &&
+    (query.isProxy === undefined || a.isProxy === query.isProxy) &&
+    (query.isTor === undefined || a.isTor === query.isTor) &&
+    (query.isDatacenter === undefined || a.isDatacenter === query.isDatacenter) &&
+    (!query.country || [a.country, a.countryCode].some((c) => c?.toLowerCase() === query.country!.toLowerCase())) &&
+    (!query.asn || a.asn?.toUpperCase() === normalizeAsn(query.asn).toUpperCase()) &&
+    (!query.provider || containsText(a.vpnProvider, query.provider)) &&
+    (!query.from || analyzedAt >= query.from) &&
+    (!query.to || analyzedAt <= query.to) &&
+    (query.minScore === undefined || a.riskScore >= query.minScore) &&
+    (query.maxScore === undefined || a.riskScore <= query.maxScore) &&
+    (!query.q || [a.ipAddress, a.country, a.city, a.isp, a.organization, a.asn, a.vpnProvider].some((v) => containsText(v, query.q!)))
+  );
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Rows come back one past the page size so we know whether another page follows
+function toAnalysisPage(rows: IpAnalysis[], query: AnalysisQuery, total: number): AnalysisPage {
+  const items = rows.slice(0, query.limit);
+  const nextCursor = rows.length > query.limit ? encodeAnalysisCursor(items[items.length - 1], query.sort) : null;
+  return { items, total, nextCursor };
+}
+
+function escapeLike(text: string): string {
+  return text.replace(/[\\%_]/g, "\\$&");
+}
+
+// Records are versioned per network: a refetch that matches the address's
+// latest record only refreshes its lastSeenAt, and a changed record takes the
+// version of the network it now matches (or the next one)
+async function resolveWhoisVersion(
+  store: IStorage,
+  workspaceId: string,
+  record: InsertWhoisRecord,
+): Promise<{ unchanged: WhoisRecord } | { version: number }> {
+  const history = await store.getWhoisHistory(workspaceId, record.ipAddress);
+  const latest = history[history.length - 1];
+  if (latest && diffWhoisRecords(latest, record).length === 0) {
+    return { unchanged: latest };
+  }
+  const siblings = record.netHandle ? await store.getWhoisHistoryByHandle(workspaceId, record.netHandle) : history;
+  const match = siblings.find((r) => diffWhoisRecords(r, record).length === 0);
+  return { version: match?.version ?? siblings.reduce((max, r) => Math.max(max, r.version ?? 1), 0) + 1 };
+}
+
+// New deployments, and rows stored before workspaces existed, start in this one
+async function ensureDefaultWorkspace(store: IStorage) {
+  if (!(await store.getWorkspace(DEFAULT_WORKSPACE_ID))) {
+    await store.createWorkspace({ name: "Default", createdAt: new Date() }, DEFAULT_WORKSPACE_ID);
+  }
 }
 
+// Every call goes to MongoDB; connect() fails if it is unreachable
 class MongoStorage implements IStorage {
   async connect(): Promise<void> {
+    await mongoose.connect(MONGODB_URL);
+    await this.backfillWorkspaces();
+    await ensureDefaultWorkspace(this);
+    console.log("✓ Connected to MongoDB");
+  }
+
+  // Documents written before workspaces existed join the default one
+  private async backfillWorkspaces() {
+    const missing = { workspaceId: { $exists: false } };
+    const update = { $set: { workspaceId: DEFAULT_WORKSPACE_ID } };
+    await Promise.all([
+      AnalysisModel.updateMany(missing, update),
+      WhoisModel.updateMany(missing, update),
+      ApiKeyModel.updateMany(missing, update),
+      ScoringPolicyModel.updateMany(missing, update),
+      UserModel.updateMany({ workspaceIds: { $exists: false } }, { $set: { workspaceIds: [DEFAULT_WORKSPACE_ID] } }),
+    ]);
+  }
+
+  async createWorkspace(workspace: InsertWorkspace, id: string = randomUUID()): Promise<Workspace> {
+    const doc = await WorkspaceModel.create({ ...workspace, _id: id });
+    return toWorkspace(doc);
+  }
+
+  async getWorkspace(id: string): Promise<Workspace | undefined> {
+    const doc = await WorkspaceModel.findById(id);
+    return doc ? toWorkspace(doc) : undefined;
+  }
+
+  async getWorkspaces(): Promise<Workspace[]> {
+    const docs = await WorkspaceModel.find().sort({ createdAt: 1 });
+    return docs.map(toWorkspace);
+  }
+
+  async renameWorkspace(id: string, name: string): Promise<Workspace | undefined> {
+    const doc = await WorkspaceModel.findByIdAndUpdate(id, { $set: { name } }, { new: true });
+    return doc ? toWorkspace(doc) : undefined;
+  }
+
+  async setProviderEnabled(workspaceId: string, provider: string, enabled: boolean): Promise<Workspace | undefined> {
+    const update = enabled ? { $pull: { disabledProviders: provider } } : { $addToSet: { disabledProviders: provider } };
+    const doc = await WorkspaceModel.findByIdAndUpdate(workspaceId, update, { new: true });
+    return doc ? toWorkspace(doc) : undefined;
+  }
+
+  async createAnalysis(workspaceId: string, data: InsertIpAnalysis): Promise<IpAnalysis> {
+    const doc = await AnalysisModel.create({ ...data, workspaceId, ipAddress: ipKey(data.ipAddress) });
+    return toAnalysis(doc);
+  }
+
+  async getAnalysis(workspaceId: string, id: string): Promise<IpAnalysis | undefined> {
+    if (!mongoose.isValidObjectId(id)) return undefined;
+    const doc = await AnalysisModel.findOne({ _id: id, workspaceId });
+    return doc ? toAnalysis(doc) : undefined;
+  }
+
+  async getAnalysisByIp(workspaceId: string, ipAddress: string): Promise<IpAnalysis | undefined> {
+    const doc = await AnalysisModel.findOne({ workspaceId, ipAddress: ipKey(ipAddress) }).sort({ analyzedAt: -1 });
+    return doc ? toAnalysis(doc) : undefined;
+  }
+
+  // Every scan of an address, oldest first
+  async getAnalysesByIp(workspaceId: string, ipAddress: string): Promise<IpAnalysis[]> {
+    const docs = await AnalysisModel.find({ workspaceId, ipAddress: ipKey(ipAddress) }).sort({ analyzedAt: 1 });
+    return docs.map(toAnalysis);
+  }
+
+  async queryAnalyses(workspaceId: string, query: AnalysisQuery): Promise<AnalysisPage> {
+    const filter: AnalysisFilter = { workspaceId };
+    if (query.threatLevel?.length) filter.threatLevel = { $in: query.threatLevel };
+    if (query.isVpn !== undefined) filter.isVpn = query.isVpn;
+    if (query.isProxy !== undefined) filter.isProxy = query.isProxy;
+    if (query.isTor !== undefined) filter.isTor = query.isTor;
+    if (query.isDatacenter !== undefined) filter.isDatacenter = query.isDatacenter;
+    if (query.asn) filter.asn = new RegExp(`^${normalizeAsn(query.asn)}$`, "i");
+    if (query.provider) filter.vpnProvider = new RegExp(escapeRegex(query.provider), "i");
+    if (query.from || query.to) {
+      filter.analyzedAt = { ...(query.from && { $gte: query.from }), ...(query.to && { $lte: query.to }) };
+    }
+    if (query.minScore !== undefined || query.maxScore !== undefined) {
+      filter.riskScore = {
+        ...(query.minScore !== undefined && { $gte: query.minScore }),
+        ...(query.maxScore !== undefined && { $lte: query.maxScore }),
+      };
+    }
+    const and: AnalysisConditions = [];
+    if (query.country) {
+      const country = new RegExp(`^${escapeRegex(query.country)}$`, "i");
+      and.push({ $or: [{ country }, { countryCode: country }] });
+    }
+    if (query.q) {
+      const text = new RegExp(escapeRegex(query.q), "i");
+      and.push({ $or: ["ipAddress", "country", "city", "isp", "organization", "asn", "vpnProvider"].map((f) => ({ [f]: text })) });
+    }
+    if (and.length) filter.$and = and;
+
+    const total = await AnalysisModel.countDocuments(filter);
+    const cursor = query.cursor ? decodeAnalysisCursor(query.cursor, query.sort) : null;
+    if (cursor && !mongoose.isValidObjectId(cursor.id)) {
+      return { items: [], total, nextCursor: null };
+    }
+    if (cursor) {
+      const op = query.order === "desc" ? "$lt" : "$gt";
+      const value = query.sort === "analyzedAt" ? new Date(cursor.value) : cursor.value;
+      const id = new mongoose.Types.ObjectId(cursor.id);
+      filter.$and = [...and, { $or: [{ [query.sort]: { [op]: value } }, { [query.sort]: value, _id: { [op]: id } }] }];
+    }
+    const direction = query.order === "desc" ? -1 : 1;
+    const docs = await AnalysisModel.find(filter)
+      .sort({ [query.sort]: direction, _id: direction })
+      .limit(query.limit + 1);
+    return toAnalysisPage(docs.map(toAnalysis), query, total);
+  }
+
+  async deleteAnalysis(workspaceId: string, id: string): Promise<boolean> {
+    if (!mongoose.isValidObjectId(id)) return false;
+    const result = await AnalysisModel.deleteOne({ _id: id, workspaceId });
+    return result.deletedCount > 0;
+  }
+
+  async createWhoisRecord(workspaceId: string, record: InsertWhoisRecord): Promise<WhoisRecord> {
+    const insertRecord = { ...record, ipAddress: ipKey(record.ipAddress) };
+    const resolved = await resolveWhoisVersion(this, workspaceId, insertRecord);
+    if ("unchanged" in resolved) {
+      const doc = await WhoisModel.findByIdAndUpdate(
+        resolved.unchanged.id,
+        { $set: { lastSeenAt: insertRecord.fetchedAt } },
+        { new: true },
+      );
+      return doc ? toWhoisRecord(doc) : resolved.unchanged;
+    }
+    const doc = await WhoisModel.create({
+      ...insertRecord,
+      workspaceId,
+      nameServers: insertRecord.nameServers ?? undefined,
+      version: resolved.version,
+      lastSeenAt: insertRecord.fetchedAt,
+    });
+    return toWhoisRecord(doc);
+  }
+
+  async getWhoisByIp(workspaceId: string, ipAddress: string): Promise<WhoisRecord | undefined> {
+    const doc = await WhoisModel.findOne({ workspaceId, ipAddress: ipKey(ipAddress) }).sort({ fetchedAt: -1 });
+    return doc ? toWhoisRecord(doc) : undefined;
+  }
+
+  // Every stored version for an address, oldest first
+  async getWhoisHistory(workspaceId: string, ipAddress: string): Promise<WhoisRecord[]> {
+    const docs = await WhoisModel.find({ workspaceId, ipAddress: ipKey(ipAddress) }).sort({ fetchedAt: 1 });
+    return docs.map(toWhoisRecord);
+  }
+
+  // Every stored version of a network, across the addresses it was fetched for
+  async getWhoisHistoryByHandle(workspaceId: string, netHandle: string): Promise<WhoisRecord[]> {
+    const docs = await WhoisModel.find({ workspaceId, netHandle }).sort({ fetchedAt: 1 });
+    return docs.map(toWhoisRecord);
+  }
+
+  async getStats(workspaceId: string, stats: ScoringPolicy["stats"]): Promise<ScanStats> {
+    const [totalScans, threatsDetected, cleanIps, vpnsDetected] = await Promise.all([
+      AnalysisModel.countDocuments({ workspaceId }),
+      AnalysisModel.countDocuments({ workspaceId, riskScore: { $gte: stats.threatMinScore } }),
+      AnalysisModel.countDocuments({ workspaceId, riskScore: { $lt: stats.cleanMaxScore } }),
+      AnalysisModel.countDocuments({ workspaceId, isVpn: true }),
+    ]);
+    return { totalScans, threatsDetected, cleanIps, vpnsDetected };
+  }
+
+  // Merge by address: keep the earliest firstSeen and the latest lastSeen
+  async upsertTorExitNodes(entries: InsertTorExitNode[]): Promise<number> {
+    const nodes = entries.map((node) => ({ ...node, ipAddress: ipKey(node.ipAddress) }));
+    if (nodes.length > 0) {
+      await TorExitNodeModel.bulkWrite(nodes.map((node) => ({
+        updateOne: {
+          filter: { ipAddress: node.ipAddress },
+          update: {
+            $min: { firstSeen: node.firstSeen },
+            $max: { lastSeen: node.lastSeen },
+            $set: {
+              importedAt: node.importedAt,
+              ...(node.fingerprint ? { fingerprint: node.fingerprint } : {}),
+            },
+          },
+          upsert: true,
+        },
+      })));
+    }
+    return nodes.length;
+  }
+
+  async getTorExitNode(ip: string): Promise<TorExitNode | undefined> {
+    const doc = await TorExitNodeModel.findOne({ ipAddress: ipKey(ip) }).lean();
+    return doc ? ({
+      ipAddress: doc.ipAddress,
+      fingerprint: doc.fingerprint ?? null,
+      firstSeen: doc.firstSeen,
+      lastSeen: doc.lastSeen,
+      importedAt: doc.importedAt,
+    } as TorExitNode) : undefined;
+  }
+
+  async pruneTorExitNodes(lastSeenBefore: Date): Promise<number> {
+    const result = await TorExitNodeModel.deleteMany({ lastSeen: { $lt: lastSeenBefore } });
+    return result.deletedCount;
+  }
+
+  async getTorExitListStatus(): Promise<TorExitListStatus> {
+    const [count, latest] = await Promise.all([
+      TorExitNodeModel.countDocuments(),
+      TorExitNodeModel.findOne().sort({ importedAt: -1 }).lean(),
+    ]);
+    return { count, lastImportedAt: latest?.importedAt?.toISOString() ?? null };
+  }
+
+  async getScoringPolicies(workspaceId: string): Promise<ScoringPolicy[]> {
+    const docs = await ScoringPolicyModel.find({ workspaceId }).sort({ version: 1 }).lean();
+    return docs.map((doc) => scoringPolicySchema.parse(doc.policy));
+  }
+
+  async addScoringPolicy(workspaceId: string, policy: ScoringPolicy): Promise<boolean> {
     try {
-      await mongoose.connect(MONGODB_URL);
-      useDatabase = true;
-      console.log("✓ Connected to MongoDB");
+      await ScoringPolicyModel.create({ workspaceId, version: policy.version, policy });
+      return true;
     } catch (error) {
-      console.log("⚠ MongoDB unavailable, using in-memory storage");
-      useDatabase = false;
+      if ((error as { code?: number }).code === 11000) return false;
+      throw error;
     }
   }
 
-  async createAnalysis(insertAnalysis: InsertIpAnalysis): Promise<IpAnalysis> {
-    const id = randomUUID();
-    const analysis: IpAnalysis = {
-      ...insertAnalysis,
-      id,
-      isp: insertAnalysis.isp ?? null,
-      organization: insertAnalysis.organization ?? null,
-      timezone: insertAnalysis.timezone ?? null,
-    } as IpAnalysis;
-    
-    memoryAnalyses.set(id, analysis);
-    
-    if (!useDatabase) return analysis;
-    
+  async addRangeImport(workspaceId: string, data: InsertRangeImport): Promise<RangeImport> {
+    const doc = await RangeImportModel.create({
+      ...data,
+      workspaceId,
+      provider: data.provider ?? undefined,
+      category: data.category ?? undefined,
+    });
+    return toRangeImport(doc);
+  }
+
+  async getRangeImports(workspaceId: string): Promise<RangeImport[]> {
+    const docs = await RangeImportModel.find({ workspaceId }).sort({ importedAt: 1 });
+    return docs.map(toRangeImport);
+  }
+
+  async createApiKey(workspaceId: string, key: InsertApiKey): Promise<ApiKey> {
+    const doc = await ApiKeyModel.create({
+      ...key,
+      workspaceId,
+      dailyQuota: key.dailyQuota ?? undefined,
+      usageDate: key.usageDate ?? undefined,
+      lastUsedAt: key.lastUsedAt ?? undefined,
+      revokedAt: key.revokedAt ?? undefined,
+    });
+    return toApiKey(doc);
+  }
+
+  async getApiKeys(workspaceId: string): Promise<ApiKey[]> {
+    const docs = await ApiKeyModel.find({ workspaceId }).sort({ createdAt: -1 });
+    return docs.map(toApiKey);
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const doc = await ApiKeyModel.findOne({ keyHash });
+    return doc ? toApiKey(doc) : undefined;
+  }
+
+  async revokeApiKey(workspaceId: string, id: string): Promise<ApiKey | undefined> {
+    if (!mongoose.isValidObjectId(id)) return undefined;
+    const doc = await ApiKeyModel.findOneAndUpdate(
+      { _id: id, workspaceId },
+      [{ $set: { revokedAt: { $ifNull: ["$revokedAt", new Date()] } } }],
+      { new: true, updatePipeline: true },
+    );
+    return doc ? toApiKey(doc) : undefined;
+  }
+
+  // Check and increment in one update, so concurrent requests can't overshoot
+  async consumeApiKeyQuota(id: string, day: string, at: Date, units = 1): Promise<ApiKey | null> {
+    const doc = await ApiKeyModel.findOneAndUpdate(
+      {
+        _id: id,
+        $or: [
+          { dailyQuota: null },
+          { usageDate: { $ne: day }, dailyQuota: { $gte: units } },
+          { $expr: { $lte: [{ $add: ["$usageToday", units] }, "$dailyQuota"] } },
+        ],
+      },
+      [{
+        $set: {
+          usageToday: { $cond: [{ $eq: ["$usageDate", day] }, { $add: ["$usageToday", units] }, units] },
+          usageDate: day,
+          requestCount: { $add: ["$requestCount", units] },
+          lastUsedAt: at,
+        },
+      }],
+      { new: true, updatePipeline: true },
+    );
+    return doc ? toApiKey(doc) : null;
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    const doc = await UserModel.create({
+      ...user,
+      workspaceIds: user.workspaceIds ?? [DEFAULT_WORKSPACE_ID],
+      lastLoginAt: user.lastLoginAt ?? undefined,
+    });
+    return toUser(doc);
+  }
+
+  async createFirstUser(user: InsertUser): Promise<User | undefined> {
+    if ((await this.countUsers()) > 0) return undefined;
     try {
-      const doc = await AnalysisModel.create(insertAnalysis);
-      return { ...doc.toObject(), id: doc._id.toString() } as IpAnalysis;
+      const doc = await UserModel.create({
+        ...user,
+        workspaceIds: user.workspaceIds ?? [DEFAULT_WORKSPACE_ID],
+        lastLoginAt: user.lastLoginAt ?? undefined,
+        firstAdmin: true,
+      });
+      return toUser(doc);
     } catch (error) {
-      return analysis;
+      if ((error as { code?: number }).code === 11000) return undefined;
+      throw error;
     }
   }
 
-  async getAnalysis(id: string): Promise<IpAnalysis | undefined> {
-    if (!useDatabase) return undefined;
-    const doc = await AnalysisModel.findById(id);
-    return doc ? ({ ...doc.toObject(), id: doc._id.toString() } as IpAnalysis) : undefined;
+  async getUser(id: string): Promise<User | undefined> {
+    if (!mongoose.isValidObjectId(id)) return undefined;
+    const doc = await UserModel.findById(id);
+    return doc ? toUser(doc) : undefined;
   }
 
-  async getAnalysisByIp(ipAddress: string): Promise<IpAnalysis | undefined> {
-    if (!useDatabase) return undefined;
-    const doc = await AnalysisModel.findOne({ ipAddress }).sort({ analyzedAt: -1 });
-    return doc ? ({ ...doc.toObject(), id: doc._id.toString() } as IpAnalysis) : undefined;
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const doc = await UserModel.findOne({ username });
+    return doc ? toUser(doc) : undefined;
   }
 
-  async getAllAnalyses(): Promise<IpAnalysis[]> {
-    if (useDatabase) {
-      try {
-        const docs = await AnalysisModel.find().sort({ analyzedAt: -1 });
-        return docs.map((doc) => ({ ...doc.toObject(), id: doc._id.toString() } as IpAnalysis));
-      } catch {
-        return Array.from(memoryAnalyses.values()).sort((a, b) => new Date(b.analyzedAt).getTime() - new Date(a.analyzedAt).getTime());
+  async getUsers(): Promise<User[]> {
+    const docs = await UserModel.find().sort({ createdAt: 1 });
+    return docs.map(toUser);
+  }
+
+  async countUsers(): Promise<number> {
+    return UserModel.countDocuments();
+  }
+
+  async updateUser(id: string, changes: UserChanges): Promise<User | undefined> {
+    if (!mongoose.isValidObjectId(id)) return undefined;
+    const doc = await UserModel.findByIdAndUpdate(id, { $set: changes }, { new: true });
+    return doc ? toUser(doc) : undefined;
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    if (!mongoose.isValidObjectId(id)) return false;
+    const result = await UserModel.deleteOne({ _id: id });
+    return result.deletedCount > 0;
+  }
+}
+
+interface MemorySnapshot {
+  analyses: IpAnalysis[];
+  whois: WhoisRecord[];
+  torExitNodes: TorExitNode[];
+  apiKeys?: ApiKey[]; // Absent in snapshots written before API keys existed
+  users?: User[]; // ...or accounts
+  workspaces?: Workspace[]; // ...or workspaces, whose rows have no workspaceId either
+  scoringPolicies?: Record<string, ScoringPolicy[]>; // ...or stored scoring policies, per workspace
+  rangeImports?: RangeImport[]; // ...or imported ranges
+}
+
+// Timestamp fields to turn back into Dates when a snapshot is loaded
+const SNAPSHOT_DATE_FIELDS = new Set([
+  "analyzedAt", "fetchedAt", "lastSeenAt", "firstSeen", "lastSeen", "importedAt",
+  "lastUsedAt", "createdAt", "revokedAt", "lastLoginAt",
+]);
+
+function inDefaultWorkspace<T extends { workspaceId: string }>(row: T): T {
+  return { ...row, workspaceId: row.workspaceId ?? DEFAULT_WORKSPACE_ID };
+}
+
+// Key of an address's WHOIS versions within a workspace
+function whoisKey(workspaceId: string, ipAddress: string): string {
+  return `${workspaceId}/${ipAddress}`;
+}
+
+function byTime<T>(field: (item: T) => Date, direction: 1 | -1 = 1) {
+  return (a: T, b: T) => direction * (field(a).getTime() - field(b).getTime());
+}
+
+// Process-local storage with the same semantics as the database backends.
+// With a snapshot path, data is loaded on connect and written back (debounced)
+// after every change, so it survives restarts.
+class MemStorage implements IStorage {
+  private workspaces = new Map<string, Workspace>();
+  private analyses = new Map<string, IpAnalysis>();
+  private whois = new Map<string, WhoisRecord[]>(); // versions per workspace and address (whoisKey), oldest first
+  private torExitNodes = new Map<string, TorExitNode>();
+  private apiKeys = new Map<string, ApiKey>();
+  private users = new Map<string, User>();
+  private scoringPolicies = new Map<string, ScoringPolicy[]>(); // Per workspace, oldest first
+  private rangeImports: RangeImport[] = []; // Oldest first
+  private saveTimer: NodeJS.Timeout | null = null;
+  // Snapshot writes run one at a time, so two never share the temporary file
+  private pendingSave: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly snapshotPath?: string) {}
+
+  async connect(): Promise<void> {
+    if (this.snapshotPath) {
+      await this.load(this.snapshotPath);
+      console.log(`✓ Using in-memory storage (snapshot ${this.snapshotPath}, ${this.analyses.size} analyses)`);
+    } else {
+      console.log("✓ Using in-memory storage");
+    }
+    await ensureDefaultWorkspace(this);
+  }
+
+  private async load(snapshotPath: string) {
+    try {
+      const snapshot: MemorySnapshot = JSON.parse(
+        await fs.readFile(snapshotPath, "utf-8"),
+        (key, value) => (SNAPSHOT_DATE_FIELDS.has(key) && typeof value === "string" ? new Date(value) : value),
+      );
+      this.workspaces = new Map((snapshot.workspaces ?? []).map((w) => [w.id, { ...w, disabledProviders: w.disabledProviders ?? [] }]));
+      this.analyses = new Map(snapshot.analyses.map((a) => [a.id, inDefaultWorkspace(a)]));
+      this.whois = new Map();
+      for (const record of snapshot.whois.map(inDefaultWorkspace)) {
+        const key = whoisKey(record.workspaceId, record.ipAddress);
+        this.whois.set(key, [...(this.whois.get(key) ?? []), record]);
       }
+      this.torExitNodes = new Map(snapshot.torExitNodes.map((n) => [n.ipAddress, n]));
+      this.apiKeys = new Map((snapshot.apiKeys ?? []).map((k) => [k.id, inDefaultWorkspace(k)]));
+      this.users = new Map((snapshot.users ?? []).map((u) => [u.id, { ...u, workspaceIds: u.workspaceIds ?? [DEFAULT_WORKSPACE_ID] }]));
+      this.scoringPolicies = new Map(Object.entries(snapshot.scoringPolicies ?? {}));
+      this.rangeImports = snapshot.rangeImports ?? [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
     }
-    return Array.from(memoryAnalyses.values()).sort((a, b) => new Date(b.analyzedAt).getTime() - new Date(a.analyzedAt).getTime());
   }
 
-  async deleteAnalysis(id: string): Promise<boolean> {
-    if (!useDatabase) return false;
-    const result = await AnalysisModel.deleteOne({ _id: id });
-    return result.deletedCount > 0;
+  private scheduleSave() {
+    if (!this.snapshotPath || this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save().catch((error) => console.log("⚠ Failed to write storage snapshot:", error));
+    }, SNAPSHOT_DEBOUNCE_MS);
+    this.saveTimer.unref();
+  }
+
+  private save(): Promise<void> {
+    const result = this.pendingSave.then(() => this.writeSnapshot());
+    this.pendingSave = result.catch(() => undefined);
+    return result;
+  }
+
+  // Write to a temporary file and rename, so a crash never leaves half a snapshot
+  private async writeSnapshot() {
+    const snapshot: MemorySnapshot = {
+      workspaces: Array.from(this.workspaces.values()),
+      analyses: Array.from(this.analyses.values()),
+      whois: Array.from(this.whois.values()).flat(),
+      torExitNodes: Array.from(this.torExitNodes.values()),
+      apiKeys: Array.from(this.apiKeys.values()),
+      users: Array.from(this.users.values()),
+      scoringPolicies: Object.fromEntries(this.scoringPolicies),
+      rangeImports: this.rangeImports,
+    };
+    const tmpPath = `${this.snapshotPath}.tmp`;
+    await fs.mkdir(path.dirname(this.snapshotPath!), { recursive: true });
+    await fs.writeFile(tmpPath, JSON.stringify(snapshot));
+    await fs.rename(tmpPath, this.snapshotPath!);
+  }
+
+  async createWorkspace(data: InsertWorkspace, id: string = randomUUID()): Promise<Workspace> {
+    if (Array.from(this.workspaces.values()).some((w) => w.name === data.name)) {
+      throw new Error(`Workspace "${data.name}" already exists`);
+    }
+    const workspace: Workspace = { ...data, id, disabledProviders: data.disabledProviders ?? [] };
+    this.workspaces.set(id, workspace);
+    this.scheduleSave();
+    return workspace;
+  }
+
+  async getWorkspace(id: string): Promise<Workspace | undefined> {
+    return this.workspaces.get(id);
+  }
+
+  async getWorkspaces(): Promise<Workspace[]> {
+    return Array.from(this.workspaces.values()).sort(byTime((w) => w.createdAt));
+  }
+
+  async renameWorkspace(id: string, name: string): Promise<Workspace | undefined> {
+    const workspace = this.workspaces.get(id);
+    if (!workspace) return undefined;
+    const renamed = { ...workspace, name };
+    this.workspaces.set(id, renamed);
+    this.scheduleSave();
+    return renamed;
+  }
+
+  async setProviderEnabled(workspaceId: string, provider: string, enabled: boolean): Promise<Workspace | undefined> {
+    const workspace = this.workspaces.get(workspaceId);
+    if (!workspace) return undefined;
+    const others = workspace.disabledProviders.filter((name) => name !== provider);
+    const updated = { ...workspace, disabledProviders: enabled ? others : [...others, provider] };
+    this.workspaces.set(workspaceId, updated);
+    this.scheduleSave();
+    return updated;
+  }
+
+  async createAnalysis(workspaceId: string, data: InsertIpAnalysis): Promise<IpAnalysis> {
+    const analysis: IpAnalysis = {
+      ...data,
+      id: randomUUID(),
+      workspaceId,
+      ipAddress: ipKey(data.ipAddress),
+      addressClass: data.addressClass ?? "public",
+      vpnProvider: data.vpnProvider ?? null,
+      isp: data.isp ?? null,
+      organization: data.organization ?? null,
+      asn: data.asn ?? null,
+      country: data.country ?? null,
+      countryCode: data.countryCode ?? null,
+      city: data.city ?? null,
+      region: data.region ?? null,
+      latitude: data.latitude ?? null,
+      longitude: data.longitude ?? null,
+      timezone: data.timezone ?? null,
+      signals: data.signals ?? [],
+      policyVersion: data.policyVersion ?? null,
+    };
+    this.analyses.set(analysis.id, analysis);
+    this.scheduleSave();
+    return analysis;
+  }
+
+  async getAnalysis(workspaceId: string, id: string): Promise<IpAnalysis | undefined> {
+    const analysis = this.analyses.get(id);
+    return analysis?.workspaceId === workspaceId ? analysis : undefined;
+  }
+
+  async getAnalysisByIp(workspaceId: string, ipAddress: string): Promise<IpAnalysis | undefined> {
+    return (await this.getAnalysesByIp(workspaceId, ipAddress)).at(-1);
+  }
+
+  async getAnalysesByIp(workspaceId: string, ipAddress: string): Promise<IpAnalysis[]> {
+    const key = ipKey(ipAddress);
+    return this.analysesIn(workspaceId)
+      .filter((a) => a.ipAddress === key)
+      .sort(byTime((a) => a.analyzedAt));
+  }
+
+  private analysesIn(workspaceId: string): IpAnalysis[] {
+    return Array.from(this.analyses.values()).filter((a) => a.workspaceId === workspaceId);
   }
 
-  async createWhoisRecord(insertRecord: InsertWhoisRecord): Promise<WhoisRecord> {
-    const id = randomUUID();
+  async queryAnalyses(workspaceId: string, query: AnalysisQuery): Promise<AnalysisPage> {
+    const direction = query.order === "desc" ? -1 : 1;
+    const compare = (a: IpAnalysis, value: string | number, id: string) => {
+      const v = sortValue(a, query.sort);
+      return direction * (v < value ? -1 : v > value ? 1 : a.id < id ? -1 : a.id > id ? 1 : 0);
+    };
+    const matches = this.analysesIn(workspaceId)
+      .filter((a) => matchesAnalysisQuery(a, query))
+      .sort((a, b) => compare(a, sortValue(b, query.sort), b.id));
+    const cursor = query.cursor ? decodeAnalysisCursor(query.cursor, query.sort) : null;
+    const remaining = cursor ? matches.filter((a) => compare(a, cursor.value, cursor.id) > 0) : matches;
+    return toAnalysisPage(remaining.slice(0, query.limit + 1), query, matches.length);
+  }
+
+  async deleteAnalysis(workspaceId: string, id: string): Promise<boolean> {
+    if (this.analyses.get(id)?.workspaceId !== workspaceId) return false;
+    this.analyses.delete(id);
+    this.scheduleSave();
+    return true;
+  }
+
+  async createWhoisRecord(workspaceId: string, record: InsertWhoisRecord): Promise<WhoisRecord> {
+    const insertRecord = { ...record, ipAddress: ipKey(record.ipAddress) };
+    const key = whoisKey(workspaceId, insertRecord.ipAddress);
+    const resolved = await resolveWhoisVersion(this, workspaceId, insertRecord);
+    // Read after the await, so a record stored meanwhile isn't overwritten
+    const history = this.whois.get(key) ?? [];
+    if ("unchanged" in resolved) {
+      const touched = { ...resolved.unchanged, lastSeenAt: insertRecord.fetchedAt };
+      this.whois.set(key, history.map((r) => (r.id === touched.id ? touched : r)));
+      this.scheduleSave();
+      return touched;
+    }
     const whois: WhoisRecord = {
       ...insertRecord,
-      id,
+      id: randomUUID(),
+      workspaceId,
       domain: insertRecord.domain ?? null,
       registrar: insertRecord.registrar ?? null,
       registrantName: insertRecord.registrantName ?? null,
@@ -157,49 +990,605 @@ class MongoStorage implements IStorage {
       originAs: insertRecord.originAs ?? null,
       abuseContact: insertRecord.abuseContact ?? null,
       techContact: insertRecord.techContact ?? null,
-    } as WhoisRecord;
-    
-    memoryWhois.set(insertRecord.ipAddress, whois);
-    
-    if (!useDatabase) return whois;
-    
-    try {
-      const doc = await WhoisModel.create(insertRecord);
-      return { ...doc.toObject(), id: doc._id.toString() } as WhoisRecord;
-    } catch (error) {
-      return whois;
+      rawText: insertRecord.rawText ?? null,
+      version: resolved.version,
+      lastSeenAt: insertRecord.fetchedAt,
+    };
+    this.whois.set(key, [...history, whois].sort(byTime((r) => r.fetchedAt)));
+    this.scheduleSave();
+    return whois;
+  }
+
+  async getWhoisByIp(workspaceId: string, ipAddress: string): Promise<WhoisRecord | undefined> {
+    return this.whois.get(whoisKey(workspaceId, ipKey(ipAddress)))?.at(-1);
+  }
+
+  async getWhoisHistory(workspaceId: string, ipAddress: string): Promise<WhoisRecord[]> {
+    return [...(this.whois.get(whoisKey(workspaceId, ipKey(ipAddress))) ?? [])];
+  }
+
+  async getWhoisHistoryByHandle(workspaceId: string, netHandle: string): Promise<WhoisRecord[]> {
+    return Array.from(this.whois.values())
+      .flat()
+      .filter((r) => r.workspaceId === workspaceId && r.netHandle === netHandle)
+      .sort(byTime((r) => r.fetchedAt));
+  }
+
+  async getStats(workspaceId: string, stats: ScoringPolicy["stats"]): Promise<ScanStats> {
+    const analyses = this.analysesIn(workspaceId);
+    return {
+      totalScans: analyses.length,
+      threatsDetected: analyses.filter((a) => a.riskScore >= stats.threatMinScore).length,
+      cleanIps: analyses.filter((a) => a.riskScore < stats.cleanMaxScore).length,
+      vpnsDetected: analyses.filter((a) => a.isVpn).length,
+    };
+  }
+
+  // Merge by address: keep the earliest firstSeen and the latest lastSeen
+  async upsertTorExitNodes(entries: InsertTorExitNode[]): Promise<number> {
+    for (const entry of entries) {
+      const node = { ...entry, ipAddress: ipKey(entry.ipAddress) };
+      const existing = this.torExitNodes.get(node.ipAddress);
+      this.torExitNodes.set(node.ipAddress, {
+        ...node,
+        fingerprint: node.fingerprint ?? existing?.fingerprint ?? null,
+        firstSeen: existing && existing.firstSeen < node.firstSeen ? existing.firstSeen : node.firstSeen,
+        lastSeen: existing && existing.lastSeen > node.lastSeen ? existing.lastSeen : node.lastSeen,
+      });
     }
+    if (entries.length > 0) this.scheduleSave();
+    return entries.length;
   }
 
-  async getWhoisByIp(ipAddress: string): Promise<WhoisRecord | undefined> {
-    if (!useDatabase) return undefined;
-    const doc = await WhoisModel.findOne({ ipAddress }).sort({ fetchedAt: -1 });
-    return doc ? ({ ...doc.toObject(), id: doc._id.toString() } as WhoisRecord) : undefined;
+  async getTorExitNode(ipAddress: string): Promise<TorExitNode | undefined> {
+    return this.torExitNodes.get(ipKey(ipAddress));
   }
 
-  async getStats(): Promise<ScanStats> {
-    let allAnalyses: any[] = [];
-    
-    if (useDatabase) {
-      try {
-        allAnalyses = await AnalysisModel.find();
-      } catch {
-        allAnalyses = Array.from(memoryAnalyses.values());
+  async pruneTorExitNodes(lastSeenBefore: Date): Promise<number> {
+    let removed = 0;
+    Array.from(this.torExitNodes.entries()).forEach(([ip, node]) => {
+      if (node.lastSeen < lastSeenBefore) {
+        this.torExitNodes.delete(ip);
+        removed++;
       }
-    } else {
-      allAnalyses = Array.from(memoryAnalyses.values());
+    });
+    if (removed > 0) this.scheduleSave();
+    return removed;
+  }
+
+  async getTorExitListStatus(): Promise<TorExitListStatus> {
+    const nodes = Array.from(this.torExitNodes.values());
+    const lastImportedAt = nodes.reduce<Date | null>((max, n) => (!max || n.importedAt > max ? n.importedAt : max), null);
+    return { count: nodes.length, lastImportedAt: lastImportedAt?.toISOString() ?? null };
+  }
+
+  async getScoringPolicies(workspaceId: string): Promise<ScoringPolicy[]> {
+    return [...(this.scoringPolicies.get(workspaceId) ?? [])];
+  }
+
+  async addScoringPolicy(workspaceId: string, policy: ScoringPolicy): Promise<boolean> {
+    const versions = this.scoringPolicies.get(workspaceId) ?? [];
+    if (versions.some((p) => p.version === policy.version)) return false;
+    this.scoringPolicies.set(workspaceId, [...versions, policy].sort((a, b) => a.version - b.version));
+    this.scheduleSave();
+    return true;
+  }
+
+  async addRangeImport(workspaceId: string, data: InsertRangeImport): Promise<RangeImport> {
+    const rangeImport: RangeImport = {
+      ...data,
+      id: randomUUID(),
+      workspaceId,
+      provider: data.provider ?? null,
+      category: data.category ?? null,
+    };
+    this.rangeImports.push(rangeImport);
+    this.scheduleSave();
+    return rangeImport;
+  }
+
+  async getRangeImports(workspaceId: string): Promise<RangeImport[]> {
+    return this.rangeImports.filter((r) => r.workspaceId === workspaceId);
+  }
+
+  async createApiKey(workspaceId: string, data: InsertApiKey): Promise<ApiKey> {
+    const key: ApiKey = {
+      ...data,
+      id: randomUUID(),
+      workspaceId,
+      dailyQuota: data.dailyQuota ?? null,
+      requestCount: data.requestCount ?? 0,
+      usageToday: data.usageToday ?? 0,
+      usageDate: data.usageDate ?? null,
+      lastUsedAt: data.lastUsedAt ?? null,
+      revokedAt: data.revokedAt ?? null,
+    };
+    this.apiKeys.set(key.id, key);
+    this.scheduleSave();
+    return key;
+  }
+
+  async getApiKeys(workspaceId: string): Promise<ApiKey[]> {
+    return Array.from(this.apiKeys.values())
+      .filter((k) => k.workspaceId === workspaceId)
+      .sort(byTime((k) => k.createdAt, -1));
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    return Array.from(this.apiKeys.values()).find((k) => k.keyHash === keyHash);
+  }
+
+  async revokeApiKey(workspaceId: string, id: string): Promise<ApiKey | undefined> {
+    const key = this.apiKeys.get(id);
+    if (!key || key.workspaceId !== workspaceId) return undefined;
+    if (key.revokedAt) return key;
+    const revoked = { ...key, revokedAt: new Date() };
+    this.apiKeys.set(id, revoked);
+    this.scheduleSave();
+    return revoked;
+  }
+
+  async consumeApiKeyQuota(id: string, day: string, at: Date, units = 1): Promise<ApiKey | null> {
+    const key = this.apiKeys.get(id);
+    if (!key) return null;
+    const usageToday = key.usageDate === day ? key.usageToday : 0;
+    if (key.dailyQuota !== null && usageToday + units > key.dailyQuota) return null;
+    const used = { ...key, usageToday: usageToday + units, usageDate: day, requestCount: key.requestCount + units, lastUsedAt: at };
+    this.apiKeys.set(id, used);
+    this.scheduleSave();
+    return used;
+  }
+
+  async createUser(data: InsertUser): Promise<User> {
+    if (await this.getUserByUsername(data.username)) {
+      throw new Error(`User "${data.username}" already exists`);
     }
-    
-    return {
-      totalScans: allAnalyses.length,
-      threatsDetected: allAnalyses.filter((a) => (a.riskScore ?? 0) >= 50).length,
-      cleanIps: allAnalyses.filter((a) => (a.riskScore ?? 0) < 30).length,
-      vpnsDetected: allAnalyses.filter((a) => a.isVpn).length,
+    const user: User = {
+      ...data,
+      id: randomUUID(),
+      workspaceIds: data.workspaceIds ?? [DEFAULT_WORKSPACE_ID],
+      lastLoginAt: data.lastLoginAt ?? null,
     };
+    this.users.set(user.id, user);
+    this.scheduleSave();
+    return user;
+  }
+
+  async createFirstUser(data: InsertUser): Promise<User | undefined> {
+    if (this.users.size > 0) return undefined;
+    return this.createUser(data);
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find((u) => u.username === username);
+  }
+
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values()).sort(byTime((u) => u.createdAt));
+  }
+
+  async countUsers(): Promise<number> {
+    return this.users.size;
+  }
+
+  async updateUser(id: string, changes: UserChanges): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    const updated = { ...user, ...changes };
+    this.users.set(id, updated);
+    this.scheduleSave();
+    return updated;
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    const deleted = this.users.delete(id);
+    if (deleted) this.scheduleSave();
+    return deleted;
   }
 }
 
-export const storage = new MongoStorage();
+// Tables from shared/schema.ts; migrations in ./migrations are generated from
+// it with `npm run db:generate` and applied on connect
+class PostgresStorage implements IStorage {
+  private pool: Pool | null = null;
+  private db: NodePgDatabase | null = null;
+  private connecting: Promise<void> | null = null;
+
+  constructor(private readonly url: string | undefined) {}
+
+  connect(): Promise<void> {
+    this.connecting ??= this.open();
+    return this.connecting;
+  }
+
+  private async open(): Promise<void> {
+    if (!this.url) {
+      throw new Error("DATABASE_URL must be set when STORAGE_BACKEND=postgres");
+    }
+    const pool = new Pool({ connectionString: this.url });
+    const db = drizzle({ client: pool });
+    await migrate(db, { migrationsFolder: MIGRATIONS_DIR });
+    this.pool = pool;
+    this.db = db;
+    await ensureDefaultWorkspace(this);
+    console.log("✓ Connected to PostgreSQL");
+  }
+
+  private get client(): NodePgDatabase {
+    if (!this.db) throw new Error("PostgreSQL storage is not connected");
+    return this.db;
+  }
+
+  // The "session" table comes from the migrations
+  createSessionStore(): session.Store {
+    if (!this.pool) throw new Error("PostgreSQL storage is not connected");
+    const PgStore = connectPgSimple(session);
+    return new PgStore({ pool: this.pool, tableName: "session" });
+  }
+
+  async createWorkspace(data: InsertWorkspace, id: string = randomUUID()): Promise<Workspace> {
+    const [workspace] = await this.client.insert(workspaces).values({ ...data, id }).returning();
+    return workspace;
+  }
+
+  async getWorkspace(id: string): Promise<Workspace | undefined> {
+    const [workspace] = await this.client.select().from(workspaces).where(eq(workspaces.id, id));
+    return workspace;
+  }
+
+  async getWorkspaces(): Promise<Workspace[]> {
+    return this.client.select().from(workspaces).orderBy(asc(workspaces.createdAt));
+  }
+
+  async renameWorkspace(id: string, name: string): Promise<Workspace | undefined> {
+    const [workspace] = await this.client.update(workspaces).set({ name }).where(eq(workspaces.id, id)).returning();
+    return workspace;
+  }
+
+  // One statement, so concurrent toggles of different providers don't undo each other
+  async setProviderEnabled(workspaceId: string, provider: string, enabled: boolean): Promise<Workspace | undefined> {
+    const others = sql`array_remove(${workspaces.disabledProviders}, ${provider})`;
+    const [workspace] = await this.client
+      .update(workspaces)
+      .set({ disabledProviders: enabled ? others : sql`array_append(${others}, ${provider})` })
+      .where(eq(workspaces.id, workspaceId))
+      .returning();
+    return workspace;
+  }
+
+  async createAnalysis(workspaceId: string, data: InsertIpAnalysis): Promise<IpAnalysis> {
+    const [analysis] = await this.client
+      .insert(ipAnalyses)
+      .values({ ...data, id: randomUUID(), workspaceId, ipAddress: ipKey(data.ipAddress) })
+      .returning();
+    return analysis;
+  }
+
+  async getAnalysis(workspaceId: string, id: string): Promise<IpAnalysis | undefined> {
+    const [analysis] = await this.client
+      .select()
+      .from(ipAnalyses)
+      .where(and(eq(ipAnalyses.workspaceId, workspaceId), eq(ipAnalyses.id, id)));
+    return analysis;
+  }
+
+  async getAnalysisByIp(workspaceId: string, ipAddress: string): Promise<IpAnalysis | undefined> {
+    const [analysis] = await this.client
+      .select()
+      .from(ipAnalyses)
+      .where(and(eq(ipAnalyses.workspaceId, workspaceId), eq(ipAnalyses.ipAddress, ipKey(ipAddress))))
+      .orderBy(desc(ipAnalyses.analyzedAt))
+      .limit(1);
+    return analysis;
+  }
+
+  async getAnalysesByIp(workspaceId: string, ipAddress: string): Promise<IpAnalysis[]> {
+    return this.client
+      .select()
+      .from(ipAnalyses)
+      .where(and(eq(ipAnalyses.workspaceId, workspaceId), eq(ipAnalyses.ipAddress, ipKey(ipAddress))))
+      .orderBy(asc(ipAnalyses.analyzedAt));
+  }
+
+  async queryAnalyses(workspaceId: string, query: AnalysisQuery): Promise<AnalysisPage> {
+    const conditions: (SQL | undefined)[] = [
+      eq(ipAnalyses.workspaceId, workspaceId),
+      query.threatLevel?.length ? inArray(ipAnalyses.threatLevel, query.threatLevel) : undefined,
+      query.isVpn !== undefined ? eq(ipAnalyses.isVpn, query.isVpn) : undefined,
+      query.isProxy !== undefined ? eq(ipAnalyses.isProxy, query.isProxy) : undefined,
+      query.isTor !== undefined ? eq(ipAnalyses.isTor, query.isTor) : undefined,
+      query.isDatacenter !== undefined ? eq(ipAnalyses.isDatacenter, query.isDatacenter) : undefined,
+      query.country
+        ? or(ilike(ipAnalyses.country, escapeLike(query.country)), ilike(ipAnalyses.countryCode, escapeLike(query.country)))
+        : undefined,
+      query.asn ? ilike(ipAnalyses.asn, normalizeAsn(query.asn)) : undefined,
+      query.provider ? ilike(ipAnalyses.vpnProvider, `%${escapeLike(query.provider)}%`) : undefined,
+      query.from ? gte(ipAnalyses.analyzedAt, query.from) : undefined,
+      query.to ? lte(ipAnalyses.analyzedAt, query.to) : undefined,
+      query.minScore !== undefined ? gte(ipAnalyses.riskScore, query.minScore) : undefined,
+      query.maxScore !== undefined ? lte(ipAnalyses.riskScore, query.maxScore) : undefined,
+      query.q
+        ? or(...[
+            ipAnalyses.ipAddress, ipAnalyses.country, ipAnalyses.city, ipAnalyses.isp,
+            ipAnalyses.organization, ipAnalyses.asn, ipAnalyses.vpnProvider,
+          ].map((column) => ilike(column, `%${escapeLike(query.q!)}%`)))
+        : undefined,
+    ];
+    const [{ total }] = await this.client.select({ total: count() }).from(ipAnalyses).where(and(...conditions));
+
+    const column = ipAnalyses[query.sort];
+    const cursor = query.cursor ? decodeAnalysisCursor(query.cursor, query.sort) : null;
+    if (cursor) {
+      const value = query.sort === "analyzedAt" ? new Date(cursor.value) : cursor.value;
+      const past = query.order === "desc" ? lt : gt;
+      conditions.push(or(past(column, value), and(eq(column, value), past(ipAnalyses.id, cursor.id))));
+    }
+    const by = query.order === "desc" ? desc : asc;
+    const rows = await this.client
+      .select()
+      .from(ipAnalyses)
+      .where(and(...conditions))
+      .orderBy(by(column), by(ipAnalyses.id))
+      .limit(query.limit + 1);
+    return toAnalysisPage(rows, query, total);
+  }
+
+  async deleteAnalysis(workspaceId: string, id: string): Promise<boolean> {
+    const deleted = await this.client
+      .delete(ipAnalyses)
+      .where(and(eq(ipAnalyses.workspaceId, workspaceId), eq(ipAnalyses.id, id)))
+      .returning({ id: ipAnalyses.id });
+    return deleted.length > 0;
+  }
+
+  async createWhoisRecord(workspaceId: string, record: InsertWhoisRecord): Promise<WhoisRecord> {
+    const insertRecord = { ...record, ipAddress: ipKey(record.ipAddress) };
+    const resolved = await resolveWhoisVersion(this, workspaceId, insertRecord);
+    if ("unchanged" in resolved) {
+      const [touched] = await this.client
+        .update(whoisRecords)
+        .set({ lastSeenAt: insertRecord.fetchedAt })
+        .where(eq(whoisRecords.id, resolved.unchanged.id))
+        .returning();
+      return touched ?? resolved.unchanged;
+    }
+    const [whois] = await this.client
+      .insert(whoisRecords)
+      .values({ ...insertRecord, id: randomUUID(), workspaceId, version: resolved.version, lastSeenAt: insertRecord.fetchedAt })
+      .returning();
+    return whois;
+  }
+
+  async getWhoisByIp(workspaceId: string, ipAddress: string): Promise<WhoisRecord | undefined> {
+    const [whois] = await this.client
+      .select()
+      .from(whoisRecords)
+      .where(and(eq(whoisRecords.workspaceId, workspaceId), eq(whoisRecords.ipAddress, ipKey(ipAddress))))
+      .orderBy(desc(whoisRecords.fetchedAt))
+      .limit(1);
+    return whois;
+  }
+
+  async getWhoisHistory(workspaceId: string, ipAddress: string): Promise<WhoisRecord[]> {
+    return this.client
+      .select()
+      .from(whoisRecords)
+      .where(and(eq(whoisRecords.workspaceId, workspaceId), eq(whoisRecords.ipAddress, ipKey(ipAddress))))
+      .orderBy(asc(whoisRecords.fetchedAt));
+  }
+
+  async getWhoisHistoryByHandle(workspaceId: string, netHandle: string): Promise<WhoisRecord[]> {
+    return this.client
+      .select()
+      .from(whoisRecords)
+      .where(and(eq(whoisRecords.workspaceId, workspaceId), eq(whoisRecords.netHandle, netHandle)))
+      .orderBy(asc(whoisRecords.fetchedAt));
+  }
+
+  async getStats(workspaceId: string, stats: ScoringPolicy["stats"]): Promise<ScanStats> {
+    const [row] = await this.client
+      .select({
+        totalScans: count(),
+        threatsDetected: count(sql`case when ${ipAnalyses.riskScore} >= ${stats.threatMinScore} then 1 end`),
+        cleanIps: count(sql`case when ${ipAnalyses.riskScore} < ${stats.cleanMaxScore} then 1 end`),
+        vpnsDetected: count(sql`case when ${ipAnalyses.isVpn} then 1 end`),
+      })
+      .from(ipAnalyses)
+      .where(eq(ipAnalyses.workspaceId, workspaceId));
+    return row;
+  }
+
+  // Merge by address: keep the earliest firstSeen and the latest lastSeen
+  async upsertTorExitNodes(entries: InsertTorExitNode[]): Promise<number> {
+    // One statement can't touch a row twice, and relays often share an address
+    const merged = new Map<string, InsertTorExitNode>();
+    for (const entry of entries) {
+      const node = { ...entry, ipAddress: ipKey(entry.ipAddress) };
+      const existing = merged.get(node.ipAddress);
+      merged.set(node.ipAddress, existing ? {
+        ...node,
+        fingerprint: node.fingerprint ?? existing.fingerprint ?? null,
+        firstSeen: existing.firstSeen < node.firstSeen ? existing.firstSeen : node.firstSeen,
+        lastSeen: existing.lastSeen > node.lastSeen ? existing.lastSeen : node.lastSeen,
+      } : node);
+    }
+
+    const nodes = Array.from(merged.values());
+    for (let i = 0; i < nodes.length; i += TOR_UPSERT_BATCH) {
+      await this.client
+        .insert(torExitNodes)
+        .values(nodes.slice(i, i + TOR_UPSERT_BATCH))
+        .onConflictDoUpdate({
+          target: torExitNodes.ipAddress,
+          set: {
+            firstSeen: sql`least(${torExitNodes.firstSeen}, excluded.first_seen)`,
+            lastSeen: sql`greatest(${torExitNodes.lastSeen}, excluded.last_seen)`,
+            importedAt: sql`excluded.imported_at`,
+            fingerprint: sql`coalesce(excluded.fingerprint, ${torExitNodes.fingerprint})`,
+          },
+        });
+    }
+    return entries.length;
+  }
+
+  async getTorExitNode(ipAddress: string): Promise<TorExitNode | undefined> {
+    const [node] = await this.client.select().from(torExitNodes).where(eq(torExitNodes.ipAddress, ipKey(ipAddress)));
+    return node;
+  }
+
+  async pruneTorExitNodes(lastSeenBefore: Date): Promise<number> {
+    const result = await this.client.delete(torExitNodes).where(lt(torExitNodes.lastSeen, lastSeenBefore));
+    return result.rowCount ?? 0;
+  }
+
+  async getTorExitListStatus(): Promise<TorExitListStatus> {
+    const [row] = await this.client
+      .select({ count: count(), lastImportedAt: max(torExitNodes.importedAt) })
+      .from(torExitNodes);
+    return { count: row.count, lastImportedAt: row.lastImportedAt?.toISOString() ?? null };
+  }
+
+  async getScoringPolicies(workspaceId: string): Promise<ScoringPolicy[]> {
+    const rows = await this.client
+      .select()
+      .from(scoringPolicies)
+      .where(eq(scoringPolicies.workspaceId, workspaceId))
+      .orderBy(asc(scoringPolicies.version));
+    return rows.map((row) => row.policy);
+  }
+
+  async addScoringPolicy(workspaceId: string, policy: ScoringPolicy): Promise<boolean> {
+    const inserted = await this.client
+      .insert(scoringPolicies)
+      .values({ workspaceId, version: policy.version, policy })
+      .onConflictDoNothing()
+      .returning({ version: scoringPolicies.version });
+    return inserted.length > 0;
+  }
+
+  async addRangeImport(workspaceId: string, data: InsertRangeImport): Promise<RangeImport> {
+    const [rangeImport] = await this.client.insert(rangeImports).values({ ...data, id: randomUUID(), workspaceId }).returning();
+    return rangeImport;
+  }
+
+  async getRangeImports(workspaceId: string): Promise<RangeImport[]> {
+    return this.client
+      .select()
+      .from(rangeImports)
+      .where(eq(rangeImports.workspaceId, workspaceId))
+      .orderBy(asc(rangeImports.importedAt));
+  }
+
+  async createApiKey(workspaceId: string, data: InsertApiKey): Promise<ApiKey> {
+    const [key] = await this.client.insert(apiKeys).values({ ...data, id: randomUUID(), workspaceId }).returning();
+    return key;
+  }
+
+  async getApiKeys(workspaceId: string): Promise<ApiKey[]> {
+    return this.client.select().from(apiKeys).where(eq(apiKeys.workspaceId, workspaceId)).orderBy(desc(apiKeys.createdAt));
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const [key] = await this.client.select().from(apiKeys).where(eq(apiKeys.keyHash, keyHash));
+    return key;
+  }
+
+  async revokeApiKey(workspaceId: string, id: string): Promise<ApiKey | undefined> {
+    const [key] = await this.client
+      .update(apiKeys)
+      .set({ revokedAt: sql`coalesce(${apiKeys.revokedAt}, now())` })
+      .where(and(eq(apiKeys.workspaceId, workspaceId), eq(apiKeys.id, id)))
+      .returning();
+    return key;
+  }
+
+  // Check and increment in one statement, so concurrent requests can't overshoot
+  async consumeApiKeyQuota(id: string, day: string, at: Date, units = 1): Promise<ApiKey | null> {
+    const [key] = await this.client
+      .update(apiKeys)
+      .set({
+        usageToday: sql`case when ${apiKeys.usageDate} = ${day} then ${apiKeys.usageToday} + ${units} else ${units} end`,
+        usageDate: day,
+        requestCount: sql`${apiKeys.requestCount} + ${units}`,
+        lastUsedAt: at,
+      })
+      .where(and(
+        eq(apiKeys.id, id),
+        or(
+          isNull(apiKeys.dailyQuota),
+          and(sql`${apiKeys.usageDate} is distinct from ${day}`, gte(apiKeys.dailyQuota, units)),
+          sql`${apiKeys.usageToday} + ${units} <= ${apiKeys.dailyQuota}`,
+        ),
+      ))
+      .returning();
+    return key ?? null;
+  }
+
+  async createUser(data: InsertUser): Promise<User> {
+    const [user] = await this.client.insert(users).values({ ...data, id: randomUUID() }).returning();
+    return user;
+  }
+
+  // The lock holds off other inserts until the transaction ends; reads go on
+  async createFirstUser(data: InsertUser): Promise<User | undefined> {
+    return this.client.transaction(async (tx) => {
+      await tx.execute(sql`lock table ${users} in exclusive mode`);
+      const [row] = await tx.select({ count: count() }).from(users);
+      if (row.count > 0) return undefined;
+      const [user] = await tx.insert(users).values({ ...data, id: randomUUID() }).returning();
+      return user;
+    });
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.client.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.client.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async getUsers(): Promise<User[]> {
+    return this.client.select().from(users).orderBy(asc(users.createdAt));
+  }
+
+  async countUsers(): Promise<number> {
+    const [row] = await this.client.select({ count: count() }).from(users);
+    return row.count;
+  }
+
+  async updateUser(id: string, changes: UserChanges): Promise<User | undefined> {
+    const [user] = await this.client.update(users).set(changes).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    const deleted = await this.client.delete(users).where(eq(users.id, id)).returning({ id: users.id });
+    return deleted.length > 0;
+  }
+}
+
+function createStorage(): IStorage {
+  switch (STORAGE_BACKEND) {
+    case "memory":
+      if (!process.env.STORAGE_BACKEND && !MEMORY_SNAPSHOT_PATH) {
+        console.log("⚠ No database configured (STORAGE_BACKEND, a postgres:// DATABASE_URL, MONGODB_URL or MONGODB_URI); data is kept in memory and lost on restart");
+      }
+      return new MemStorage(MEMORY_SNAPSHOT_PATH ? path.resolve(MEMORY_SNAPSHOT_PATH) : undefined);
+    case "mongo":
+      return new MongoStorage();
+    case "postgres":
+      return new PostgresStorage(process.env.DATABASE_URL);
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND "${STORAGE_BACKEND}" (expected "memory", "mongo" or "postgres")`);
+  }
+}
 
-// Initialize storage connection
-storage.connect();
+// Connected by server/index.ts before the routes are registered
+export const storage = createStorage();
@@ -0,0 +1,167 @@
+import { randomBytes } from "crypto";
+import {
+  type BulkJob,
+  type SubnetAddressResult,
+  type SubnetReport,
+  type ThreatLevel,
+} from "@shared/schema";
+import { IP_FAMILY_BITS, formatIp } from "@shared/ip";
+import { analyzeIp } from "./analysis";
+import { formatCidr, type Cidr } from "./cidr";
+import { createBulkJob } from "./jobs";
+
+export const DEFAULT_SUBNET_SAMPLE_SIZE = 256;
+// Provider lookups in flight at once while scanning a subnet
+const SCAN_CONCURRENCY = 8;
+const TOP_ENTRIES = 5;
+
+function randomBelow(max: bigint): bigint {
+  return BigInt(`0x${randomBytes(16).toString("hex")}`) % max;
+}
+
+// Every address when the prefix fits in the sample; otherwise the prefix is
+// cut into sampleSize equal slices and one random address is taken from each
+export function selectSubnetAddresses(cidr: Cidr, sampleSize: number): string[] {
+  const total = BigInt(1) << BigInt(IP_FAMILY_BITS[cidr.family] - cidr.prefixLength);
+  const slices = BigInt(sampleSize);
+  const addresses: string[] = [];
+
+  if (total <= slices) {
+    for (let offset = BigInt(0); offset < total; offset++) {
+      addresses.push(formatIp({ family: cidr.family, value: cidr.value + offset }));
+    }
+    return addresses;
+  }
+
+  for (let i = BigInt(0); i < slices; i++) {
+    const start = (i * total) / slices;
+    const end = ((i + BigInt(1)) * total) / slices;
+    addresses.push(formatIp({ family: cidr.family, value: cidr.value + start + randomBelow(end - start) }));
+  }
+  return addresses;
+}
+
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const idx = next++;
+      results[idx] = await fn(items[idx]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+function topCounts(counts: Map<string, number>): [string, number][] {
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, TOP_ENTRIES);
+}
+
+function increment(counts: Map<string, number>, key: string) {
+  counts.set(key, (counts.get(key) ?? 0) + 1);
+}
+
+// Fields a provider left empty come back as "Unknown"
+function known(value: string | null | undefined): value is string {
+  return !!value && value !== "Unknown";
+}
+
+// What one sampled address contributes to the report; asn and provider are
+// only set when a provider actually answered, since the placeholder
+// analysis has no real network to attribute
+interface ScannedAddress {
+  address: SubnetAddressResult;
+  asn: string | null;
+  asnName: string | null;
+  provider: string | null;
+}
+
+async function scanAddress(workspaceId: string, ip: string): Promise<ScannedAddress> {
+  const { analysis, results } = await analyzeIp(workspaceId, ip);
+  const attributed = results.length > 0;
+  return {
+    address: {
+      ipAddress: analysis.ipAddress,
+      addressClass: analysis.addressClass ?? "public",
+      riskScore: analysis.riskScore,
+      threatLevel: analysis.threatLevel,
+      isVpn: analysis.isVpn,
+      isProxy: analysis.isProxy,
+      isTor: analysis.isTor,
+      isDatacenter: analysis.isDatacenter,
+      vpnProvider: analysis.vpnProvider ?? null,
+      asn: analysis.asn ?? null,
+      isp: analysis.isp ?? null,
+    },
+    asn: attributed && known(analysis.asn) ? analysis.asn : null,
+    asnName: known(analysis.isp) ? analysis.isp : null,
+    provider: attributed ? [analysis.vpnProvider, analysis.organization, analysis.isp].find(known) ?? null : null,
+  };
+}
+
+function buildReport(cidr: Cidr, scanned: ScannedAddress[]): SubnetReport {
+  const total = BigInt(1) << BigInt(IP_FAMILY_BITS[cidr.family] - cidr.prefixLength);
+  const asnCounts = new Map<string, number>();
+  const asnNames = new Map<string, string | null>();
+  const providerCounts = new Map<string, number>();
+  const threatLevels: Record<ThreatLevel, number> = { low: 0, medium: 0, high: 0, critical: 0 };
+  const counts = { vpn: 0, proxy: 0, tor: 0, datacenter: 0, flagged: 0 };
+  let scoreSum = 0;
+
+  for (const { address: a, asn, asnName, provider } of scanned) {
+    if (asn) {
+      increment(asnCounts, asn);
+      if (!asnNames.has(asn)) asnNames.set(asn, asnName);
+    }
+    if (provider) increment(providerCounts, provider);
+    threatLevels[a.threatLevel as ThreatLevel]++;
+    if (a.isVpn) counts.vpn++;
+    if (a.isProxy) counts.proxy++;
+    if (a.isTor) counts.tor++;
+    if (a.isDatacenter) counts.datacenter++;
+    if (a.isVpn || a.isProxy || a.isTor || a.isDatacenter) counts.flagged++;
+    scoreSum += a.riskScore;
+  }
+
+  return {
+    cidr: formatCidr(cidr),
+    totalAddresses: total.toString(),
+    scanned: scanned.length,
+    sampled: total > BigInt(scanned.length),
+    counts,
+    threatLevels,
+    averageRiskScore: scanned.length ? Math.round(scoreSum / scanned.length) : 0,
+    topAsns: topCounts(asnCounts).map(([asn, count]) => ({ asn, name: asnNames.get(asn) ?? null, count })),
+    topProviders: topCounts(providerCounts).map(([name, count]) => ({ name, count })),
+    addresses: scanned.map((s) => s.address),
+    scannedAt: new Date().toISOString(),
+  };
+}
+
+// Analyze the addresses chosen by selectSubnetAddresses within the request
+// and summarize what lives there. Results are not written to history; drill
+// down with a regular analysis.
+export async function scanSubnet(workspaceId: string, cidr: Cidr, ips: string[]): Promise<SubnetReport> {
+  return buildReport(cidr, await mapWithConcurrency(ips, SCAN_CONCURRENCY, (ip) => scanAddress(workspaceId, ip)));
+}
+
+// Larger samples go through the shared job queue instead, so they are paced
+// with bulk jobs and report progress over SSE; the report is set on the job
+// when the last address finishes. Failed addresses are left out of it.
+export function startSubnetScanJob(workspaceId: string, cidr: Cidr, ips: string[]): BulkJob {
+  const scanned = new Map<string, ScannedAddress>();
+  return createBulkJob(
+    workspaceId,
+    ips,
+    async (ip) => {
+      scanned.set(ip, await scanAddress(workspaceId, ip));
+      return null;
+    },
+    (job) => {
+      job.report = buildReport(cidr, ips.flatMap((ip) => scanned.get(ip) ?? []));
+    },
+  );
+}
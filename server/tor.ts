@@ -0,0 +1,98 @@
+import fs from "fs/promises";
+import { type InsertTorExitNode } from "@shared/schema";
+import { canonicalizeIp } from "@shared/ip";
+import { storage } from "./storage";
+
+// Published by the Tor Project; the bulk list (one IP per line) is also accepted
+export const DEFAULT_TOR_EXIT_LIST_URL = "https://check.torproject.org/exit-addresses";
+
+const TOR_EXIT_LIST_PATH = process.env.TOR_EXIT_LIST_PATH;
+const TOR_EXIT_LIST_URL = process.env.TOR_EXIT_LIST_URL;
+const REFRESH_MINUTES = parseInt(process.env.TOR_EXIT_LIST_REFRESH_MINUTES || "60", 10);
+// Relays not seen in any list for this long are dropped
+const MAX_AGE_DAYS = parseInt(process.env.TOR_EXIT_LIST_MAX_AGE_DAYS || "30", 10);
+
+// exit-addresses timestamps are UTC "YYYY-MM-DD HH:MM:SS"
+function parseTorTimestamp(date: string, time: string): Date | null {
+  const parsed = new Date(`${date}T${time}Z`);
+  return isNaN(parsed.getTime()) ? null : parsed;
+}
+
+// Parses either the exit-addresses format:
+//   ExitNode <fingerprint>
+//   ExitAddress <ip> <date> <time>
+// or the bulk exit list (one address per line, "#" comments allowed)
+export function parseTorExitList(content: string, importedAt = new Date()): InsertTorExitNode[] {
+  const nodes = new Map<string, InsertTorExitNode>();
+  let fingerprint: string | null = null;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    if (!line) continue;
+    const [keyword, ...rest] = line.split(/\s+/);
+
+    if (keyword === "ExitNode") {
+      fingerprint = rest[0] ?? null;
+    } else if (keyword === "ExitAddress") {
+      const [address, date, time] = rest;
+      const ip = address ? canonicalizeIp(address) : null;
+      if (!ip) continue;
+      const seen = (date && time && parseTorTimestamp(date, time)) || importedAt;
+      nodes.set(ip, { ipAddress: ip, fingerprint, firstSeen: seen, lastSeen: seen, importedAt });
+    } else if (rest.length === 0) {
+      const ip = canonicalizeIp(keyword);
+      if (ip) nodes.set(ip, { ipAddress: ip, fingerprint: null, firstSeen: importedAt, lastSeen: importedAt, importedAt });
+    }
+  }
+
+  return Array.from(nodes.values());
+}
+
+export interface TorImportResult {
+  imported: number;
+  pruned: number;
+}
+
+export async function importTorExitList(content: string): Promise<TorImportResult> {
+  const nodes = parseTorExitList(content);
+  if (nodes.length === 0) {
+    throw new Error("No Tor exit addresses found in list");
+  }
+  const imported = await storage.upsertTorExitNodes(nodes);
+  const pruned = await storage.pruneTorExitNodes(new Date(Date.now() - MAX_AGE_DAYS * 24 * 60 * 60 * 1000));
+  console.log(`✓ Imported ${imported} Tor exit nodes (${pruned} expired)`);
+  return { imported, pruned };
+}
+
+export async function importTorExitListFromUrl(url: string): Promise<TorImportResult> {
+  const res = await fetch(url);
+  if (!res.ok) {
+    throw new Error(`Tor exit list download failed: ${res.status} ${res.statusText}`);
+  }
+  return importTorExitList(await res.text());
+}
+
+export async function importTorExitListFromFile(file: string): Promise<TorImportResult> {
+  return importTorExitList(await fs.readFile(file, "utf-8"));
+}
+
+// Load the configured list file at startup and keep the configured URL refreshed
+export async function initTorExitList(): Promise<void> {
+  if (TOR_EXIT_LIST_PATH) {
+    try {
+      await importTorExitListFromFile(TOR_EXIT_LIST_PATH);
+    } catch (error) {
+      console.log(`⚠ Failed to load Tor exit list from ${TOR_EXIT_LIST_PATH}:`, error);
+    }
+  }
+
+  if (TOR_EXIT_LIST_URL) {
+    const refresh = () =>
+      importTorExitListFromUrl(TOR_EXIT_LIST_URL).catch((error) =>
+        console.log("⚠ Tor exit list refresh failed:", error.message),
+      );
+    // Don't hold up startup on the download
+    refresh();
+    setInterval(refresh, REFRESH_MINUTES * 60 * 1000).unref();
+  }
+}
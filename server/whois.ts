@@ -0,0 +1,256 @@
+import net from "net";
+import type { InsertWhoisRecord } from "@shared/schema";
+
+// IANA's server answers for every block with a "refer:" to the right RIR.
+// Either may be "host:port", e.g. a local test server.
+const WHOIS_ROOT_SERVER = process.env.WHOIS_ROOT_SERVER || "whois.iana.org";
+const WHOIS_TIMEOUT_MS = parseInt(process.env.WHOIS_TIMEOUT_MS || "8000", 10);
+const MAX_REFERRALS = 3;
+// Guard against a server that never stops talking
+const MAX_RESPONSE_BYTES = 256 * 1024;
+// Port-43 connections open at once across all lookups; further queries wait.
+// At least 1, so a zero or unparsable value can't stall every query.
+const WHOIS_MAX_CONCURRENT = Math.max(1, parseInt(process.env.WHOIS_MAX_CONCURRENT || "2", 10) || 1);
+
+let activeQueries = 0;
+const waitingQueries: (() => void)[] = [];
+
+// A finished query hands its slot straight to the next waiting one
+async function withQuerySlot<T>(run: () => Promise<T>): Promise<T> {
+  if (activeQueries < WHOIS_MAX_CONCURRENT) {
+    activeQueries++;
+  } else {
+    await new Promise<void>((resolve) => waitingQueries.push(resolve));
+  }
+  try {
+    return await run();
+  } finally {
+    const next = waitingQueries.shift();
+    if (next) next();
+    else activeQueries--;
+  }
+}
+
+export type Rir = "arin" | "ripe" | "apnic" | "lacnic" | "afrinic";
+
+const RIR_SERVERS: Record<string, Rir> = {
+  "whois.arin.net": "arin",
+  "whois.ripe.net": "ripe",
+  "whois.apnic.net": "apnic",
+  "whois.lacnic.net": "lacnic",
+  "whois.afrinic.net": "afrinic",
+};
+
+export interface WhoisResponse {
+  server: string;
+  rir: Rir | null;
+  text: string;
+}
+
+function splitHostPort(server: string): { host: string; port: number } {
+  const match = server.match(/^(.+):(\d+)$/);
+  return match ? { host: match[1], port: Number(match[2]) } : { host: server, port: 43 };
+}
+
+function rirFor(server: string): Rir | null {
+  return RIR_SERVERS[splitHostPort(server).host.toLowerCase()] ?? null;
+}
+
+// One request/response exchange: send the query line, read until the server
+// closes. Waits for a free slot first (WHOIS_MAX_CONCURRENT).
+export function queryWhoisServer(server: string, query: string): Promise<string> {
+  const { host, port } = splitHostPort(server);
+  return withQuerySlot(() => new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const socket = net.connect({ host, port }, () => socket.write(`${query}\r\n`));
+    socket.setTimeout(WHOIS_TIMEOUT_MS, () => socket.destroy(new Error(`WHOIS ${server} timed out`)));
+    socket.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_RESPONSE_BYTES) {
+        socket.destroy(new Error(`WHOIS ${server} response too large`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    socket.on("end", () => resolve(Buffer.concat(chunks).toString("utf-8")));
+    socket.on("error", reject);
+  }));
+}
+
+// ARIN needs "n +" to return the network and its org/contacts in one answer
+function queryFor(rir: Rir | null, ip: string): string {
+  return rir === "arin" ? `n + ${ip}` : ip;
+}
+
+// IANA says "refer: host"; ARIN says "ReferralServer: whois://host[:port]"
+// (rwhois referrals speak a different protocol and are not followed)
+function findReferral(text: string): string | null {
+  const match = text.match(/^refer:\s*(\S+)/im) ?? text.match(/^ReferralServer:\s*whois:\/\/([^\s/]+)/im);
+  return match ? match[1] : null;
+}
+
+// Follow referrals from the root server to the registry that holds the block
+export async function lookupWhois(ip: string): Promise<WhoisResponse> {
+  let server = WHOIS_ROOT_SERVER;
+  const visited = new Set<string>();
+  let response: WhoisResponse | null = null;
+
+  for (let hop = 0; hop <= MAX_REFERRALS && !visited.has(server.toLowerCase()); hop++) {
+    visited.add(server.toLowerCase());
+    const rir = rirFor(server);
+    const text = await queryWhoisServer(server, queryFor(rir, ip));
+    response = { server, rir, text };
+    const referral = findReferral(text);
+    if (!referral || referral.toLowerCase() === server.toLowerCase()) break;
+    server = referral;
+  }
+  return response!;
+}
+
+type Block = Map<string, string[]>;
+
+// Objects are separated by blank lines; each is a set of "key: value" lines
+// (keys lowercased). Continuation lines (leading whitespace or "+") extend
+// the previous value.
+function parseBlocks(text: string): Block[] {
+  const blocks: Block[] = [];
+  let block: Block | null = null;
+  let last: { key: string; index: number } | null = null;
+  for (const line of text.split(/\r?\n/)) {
+    if (/^[%#]/.test(line) || line.trim() === "") {
+      block = null;
+      last = null;
+      continue;
+    }
+    const match = line.match(/^([A-Za-z][\w-]*):\s*(.*)$/);
+    if (match) {
+      if (!block) blocks.push((block = new Map()));
+      const key = match[1].toLowerCase();
+      const values = block.get(key) ?? [];
+      values.push(match[2].trim());
+      block.set(key, values);
+      last = { key, index: values.length - 1 };
+    } else if (block && last && /^[\s+]/.test(line)) {
+      const values = block.get(last.key)!;
+      values[last.index] = `${values[last.index]} ${line.replace(/^\+?\s*/, "")}`.trim();
+    }
+  }
+  return blocks;
+}
+
+function get(block: Block | undefined, ...keys: string[]): string | null {
+  for (const key of keys) {
+    const value = block?.get(key)?.find(Boolean);
+    if (value) return value;
+  }
+  return null;
+}
+
+function findBlock(blocks: Block[], key: string, value?: string | null): Block | undefined {
+  return blocks.find((b) => b.has(key) && (value === undefined || get(b, key) === value));
+}
+
+// Mailbox of the person/role object a handle (abuse-c, tech-c, ...) points to.
+// LACNIC's Brazilian registry (NIC.br) names its handles "nic-hdl-br".
+function contactFor(blocks: Block[], handle: string | null): string | null {
+  if (!handle) return null;
+  const contact = findBlock(blocks, "nic-hdl", handle) ?? findBlock(blocks, "nic-hdl-br", handle);
+  return get(contact, "abuse-mailbox", "e-mail") ?? handle;
+}
+
+// ARIN lists the covering networks first, so the most specific one is last
+function parseArin(blocks: Block[]): Partial<InsertWhoisRecord> {
+  const net = [...blocks].reverse().find((b) => b.has("nethandle"));
+  const org = findBlock(blocks, "orgname") ?? findBlock(blocks, "custname");
+  const originAs = get(net, "originas");
+  return {
+    registrantOrg: get(org, "orgname", "custname") ?? get(net, "organization")?.replace(/\s*\([^)]*\)$/, "") ?? null,
+    registrantName: get(org, "orgid"),
+    registrantCountry: get(org, "country"),
+    createdDate: get(net, "regdate"),
+    updatedDate: get(net, "updated"),
+    netRange: get(net, "cidr", "netrange"),
+    netName: get(net, "netname"),
+    netHandle: get(net, "nethandle"),
+    originAs: originAs ? originAs.split(/[,\s]+/)[0] : null,
+    abuseContact: get(findBlock(blocks, "orgabuseemail"), "orgabuseemail") ?? get(findBlock(blocks, "rabuseemail"), "rabuseemail"),
+    techContact: get(findBlock(blocks, "orgtechemail"), "orgtechemail") ?? get(findBlock(blocks, "rtechemail"), "rtechemail"),
+  };
+}
+
+// RIPE, APNIC and AFRINIC all use RPSL objects. The inetnum range is the
+// network's only unique key, so it doubles as the handle.
+function parseRpsl(blocks: Block[], text: string): Partial<InsertWhoisRecord> {
+  const net = findBlock(blocks, "inetnum") ?? findBlock(blocks, "inet6num");
+  const org = findBlock(blocks, "organisation");
+  const range = get(net, "inetnum", "inet6num");
+  // RIPE and AFRINIC announce the abuse mailbox in a comment
+  const abuseComment = text.match(/^% Abuse contact for .* is '([^']+)'/m)?.[1];
+  return {
+    registrantOrg: get(org, "org-name") ?? get(net, "descr"),
+    registrantName: get(net, "org"),
+    registrantCountry: get(net, "country"),
+    createdDate: get(net, "created"),
+    updatedDate: get(net, "last-modified"),
+    netRange: range,
+    netName: get(net, "netname"),
+    netHandle: range,
+    originAs: get(findBlock(blocks, "origin"), "origin"),
+    abuseContact: abuseComment ?? contactFor(blocks, get(net, "abuse-c") ?? get(org, "abuse-c")),
+    techContact: contactFor(blocks, get(net, "tech-c")),
+  };
+}
+
+// LACNIC dates are YYYYMMDD
+function lacnicDate(value: string | null): string | null {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})$/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : value;
+}
+
+function parseLacnic(blocks: Block[]): Partial<InsertWhoisRecord> {
+  const net = findBlock(blocks, "inetnum");
+  const originAs = get(net, "aut-num");
+  const range = get(net, "inetnum");
+  return {
+    registrantOrg: get(net, "owner"),
+    registrantName: get(net, "ownerid"),
+    registrantCountry: get(net, "country"),
+    createdDate: lacnicDate(get(net, "created")),
+    updatedDate: lacnicDate(get(net, "changed")),
+    netRange: range,
+    netName: get(net, "ownerid"),
+    netHandle: range,
+    originAs: originAs ? (/^AS/i.test(originAs) ? originAs : `AS${originAs}`) : null,
+    abuseContact: contactFor(blocks, get(net, "abuse-c")),
+    techContact: contactFor(blocks, get(net, "tech-c")),
+  };
+}
+
+export function parseWhoisText(rir: Rir | null, text: string): Partial<InsertWhoisRecord> {
+  const blocks = parseBlocks(text);
+  switch (rir) {
+    case "arin":
+      return parseArin(blocks);
+    case "lacnic":
+      return parseLacnic(blocks);
+    case "ripe":
+    case "apnic":
+    case "afrinic":
+      return parseRpsl(blocks, text);
+    default:
+      // Unknown server: ARIN-style keys if present, otherwise RPSL
+      return findBlock(blocks, "nethandle") ? parseArin(blocks) : parseRpsl(blocks, text);
+  }
+}
+
+// Registration record for an address, with the registry's text kept verbatim
+export async function lookupWhoisRecord(ip: string): Promise<Partial<InsertWhoisRecord> | null> {
+  const { server, rir, text } = await lookupWhois(ip);
+  if (!text.trim()) return null;
+  return {
+    ...parseWhoisText(rir, text),
+    registrar: splitHostPort(server).host,
+    rawText: text,
+  };
+}
@@ -0,0 +1,53 @@
+import type { Request, Response, NextFunction } from "express";
+import { DEFAULT_WORKSPACE_ID, type PublicUser, type Workspace } from "@shared/schema";
+import { storage } from "./storage";
+
+declare global {
+  namespace Express {
+    interface Request {
+      workspaceId?: string;
+    }
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    workspaceId?: string; // Chosen with POST /api/workspaces/current
+  }
+}
+
+export function canOpenWorkspace(user: PublicUser, workspaceId: string): boolean {
+  return user.role === "admin" || user.workspaceIds.includes(workspaceId);
+}
+
+// The workspaces a caller may switch to: an API key only ever has its own
+export async function getOpenableWorkspaces(req: Request): Promise<Workspace[]> {
+  const all = await storage.getWorkspaces();
+  if (req.apiKey) return all.filter((w) => w.id === req.apiKey!.workspaceId);
+  const user = req.user;
+  return user ? all.filter((w) => canOpenWorkspace(user, w.id)) : [];
+}
+
+// Sets req.workspaceId for every authenticated request: the API key's
+// workspace, or the one chosen in the session (by default the first the user
+// belongs to). Anonymous requests pass through to requireScope, which rejects them.
+export function resolveWorkspace(req: Request, res: Response, next: NextFunction) {
+  if (req.apiKey) {
+    req.workspaceId = req.apiKey.workspaceId;
+    return next();
+  }
+  const user = req.user;
+  if (!user) return next();
+
+  const chosen = req.session.workspaceId;
+  if (chosen && canOpenWorkspace(user, chosen)) {
+    req.workspaceId = chosen;
+  } else if (user.role === "admin") {
+    req.workspaceId = DEFAULT_WORKSPACE_ID;
+  } else if (user.workspaceIds.length > 0) {
+    req.workspaceId = user.workspaceIds[0];
+  } else {
+    return res.status(403).json({ error: "You don't belong to any workspace" });
+  }
+  next();
+}
@@ -0,0 +1,150 @@
+export type IpFamily = 4 | 6;
+
+export interface IpAddress {
+  family: IpFamily;
+  value: bigint;
+  zone?: string; // IPv6 scope, e.g. "eth0" in fe80::1%eth0
+}
+
+export const IP_FAMILY_BITS: Record<IpFamily, number> = { 4: 32, 6: 128 };
+
+// Upper 96 bits of ::ffff:a.b.c.d
+const IPV4_MAPPED_PREFIX = BigInt(0xffff);
+
+// Octets with leading zeros ("01.2.3.4") are rejected, as net.isIPv4 does,
+// since some resolvers read them as octal
+function parseIPv4(ip: string): bigint | null {
+  const parts = ip.split(".");
+  if (parts.length !== 4) return null;
+  let value = BigInt(0);
+  for (const part of parts) {
+    if (!/^(0|[1-9]\d{0,2})$/.test(part) || Number(part) > 255) return null;
+    value = (value << BigInt(8)) | BigInt(Number(part));
+  }
+  return value;
+}
+
+function parseIPv6(ip: string): bigint | null {
+  let head = ip;
+  let tailGroups: number[] = [];
+
+  // Trailing dotted quad, e.g. ::ffff:1.2.3.4
+  if (ip.includes(".")) {
+    const lastColon = ip.lastIndexOf(":");
+    const v4 = parseIPv4(ip.slice(lastColon + 1));
+    if (v4 === null) return null;
+    tailGroups = [Number(v4 >> BigInt(16)), Number(v4 & BigInt(0xffff))];
+    head = ip.slice(0, lastColon + 1);
+    if (!head.endsWith("::")) head = head.slice(0, -1);
+  }
+
+  const halves = head.split("::");
+  if (halves.length > 2) return null;
+  const toGroups = (s: string) => (s === "" ? [] : s.split(":"));
+  const left = toGroups(halves[0]);
+  const right = halves.length === 2 ? toGroups(halves[1]) : [];
+  const total = 8 - tailGroups.length;
+  const missing = total - left.length - right.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...left, ...Array(halves.length === 2 ? missing : 0).fill("0"), ...right];
+  let value = BigInt(0);
+  for (const group of groups) {
+    if (!/^[0-9a-fA-F]{1,4}$/.test(group)) return null;
+    value = (value << BigInt(16)) | BigInt(parseInt(group, 16));
+  }
+  for (const group of tailGroups) {
+    value = (value << BigInt(16)) | BigInt(group);
+  }
+  return value;
+}
+
+// Accepts dotted IPv4 and every textual IPv6 form: compressed or full,
+// embedded IPv4 (::ffff:1.2.3.4), zone IDs (fe80::1%eth0) and brackets ([::1])
+export function parseIp(input: string): IpAddress | null {
+  let ip = input.trim();
+  if (ip.startsWith("[") && ip.endsWith("]")) ip = ip.slice(1, -1);
+  if (!ip.includes(":")) {
+    const value = parseIPv4(ip);
+    return value === null ? null : { family: 4, value };
+  }
+
+  const [addr, zone, ...rest] = ip.split("%");
+  if (rest.length || (zone !== undefined && !/^[\w.-]+$/.test(zone))) return null;
+  const value = parseIPv6(addr);
+  if (value === null) return null;
+  return zone === undefined ? { family: 6, value } : { family: 6, value, zone };
+}
+
+// RFC 5952: collapse the longest run of two or more zero groups
+function compressIPv6(groups: number[]): string {
+  let bestStart = -1;
+  let bestLength = 1;
+  for (let i = 0; i < groups.length; ) {
+    if (groups[i] !== 0) {
+      i++;
+      continue;
+    }
+    let j = i;
+    while (j < groups.length && groups[j] === 0) j++;
+    if (j - i > bestLength) {
+      bestStart = i;
+      bestLength = j - i;
+    }
+    i = j;
+  }
+  const hex = groups.map((g) => g.toString(16));
+  if (bestStart === -1) return hex.join(":");
+  return `${hex.slice(0, bestStart).join(":")}::${hex.slice(bestStart + bestLength).join(":")}`;
+}
+
+// Dotted quad for IPv4, RFC 5952 text for IPv6 (zone kept if present)
+export function formatIp(address: IpAddress): string {
+  if (address.family === 4) {
+    return [24, 16, 8, 0].map((shift) => Number((address.value >> BigInt(shift)) & BigInt(255))).join(".");
+  }
+  const groups: number[] = [];
+  for (let shift = 112; shift >= 0; shift -= 16) {
+    groups.push(Number((address.value >> BigInt(shift)) & BigInt(0xffff)));
+  }
+  const text = compressIPv6(groups);
+  return address.zone ? `${text}%${address.zone}` : text;
+}
+
+// The form an address is validated, cached and stored under. IPv4-mapped
+// IPv6 becomes plain IPv4 and zone IDs are dropped, since both name the same
+// host as far as lookups are concerned.
+export function toCanonicalIp(address: IpAddress): IpAddress {
+  if (address.family === 6 && address.value >> BigInt(32) === IPV4_MAPPED_PREFIX) {
+    return { family: 4, value: address.value & BigInt(0xffffffff) };
+  }
+  return { family: address.family, value: address.value };
+}
+
+export function canonicalizeIp(input: string): string | null {
+  const address = parseIp(input);
+  return address ? formatIp(toCanonicalIp(address)) : null;
+}
+
+// Orders IPv4 before IPv6, then numerically
+export function compareIp(a: IpAddress, b: IpAddress): number {
+  if (a.family !== b.family) return a.family < b.family ? -1 : 1;
+  return a.value < b.value ? -1 : a.value > b.value ? 1 : 0;
+}
+
+export function ipEquals(a: string, b: string): boolean {
+  const left = canonicalizeIp(a);
+  return left !== null && left === canonicalizeIp(b);
+}
+
+// Network byte order: 4 bytes for IPv4, 16 for IPv6
+export function ipToBytes(address: IpAddress): Uint8Array {
+  const length = IP_FAMILY_BITS[address.family] / 8;
+  const bytes = new Uint8Array(length);
+  let value = address.value;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = Number(value & BigInt(255));
+    value >>= BigInt(8);
+  }
+  return bytes;
+}
@@ -1,12 +1,58 @@
-import { pgTable, text, varchar, integer, boolean, timestamp, real } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, boolean, timestamp, real, json, jsonb, index, primaryKey } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { parseIp, toCanonicalIp } from "./ip";
+
+// A single piece of evidence that contributed to a risk score.
+// "max" signals compete for the base score; "add" signals are added on top.
+export const riskSignalSchema = z.object({
+  source: z.string(), // provider name or internal detector (e.g. "abuseipdb", "provider-list")
+  signal: z.string(), // "vpn", "proxy", "tor", "datacenter", "abuse-confidence", "abuse-reports"
+  weight: z.number(), // points this signal is worth
+  mode: z.enum(["max", "add"]),
+  value: z.union([z.string(), z.number(), z.boolean()]).nullable(), // raw value reported by the source
+  match: z.string().nullable(), // provider/org string that triggered the signal, if any
+});
+
+export type RiskSignal = z.infer<typeof riskSignalSchema>;
+
+// IANA special-purpose address classes; anything else is "public"
+export const addressClassSchema = z.enum([
+  "public",
+  "private",
+  "loopback",
+  "link-local",
+  "cgnat",
+  "multicast",
+  "documentation",
+  "benchmarking",
+  "unspecified",
+  "broadcast",
+  "reserved",
+]);
+
+export type AddressClass = z.infer<typeof addressClassSchema>;
+
+// Rows stored before workspaces existed belong to this one
+export const DEFAULT_WORKSPACE_ID = "default";
+
+// Tenants sharing one deployment. Analyses, WHOIS records, API keys, cached
+// results and the settings analyses are made with (scoring policy, provider
+// toggles, imported ranges) belong to exactly one workspace.
+export const workspaces = pgTable("workspaces", {
+  id: varchar("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  createdAt: timestamp("created_at").notNull(),
+  disabledProviders: text("disabled_providers").array().notNull().default([]), // Not queried for this workspace
+});
 
 // IP Analysis Result schema
 export const ipAnalyses = pgTable("ip_analyses", {
   id: varchar("id").primaryKey(),
+  workspaceId: varchar("workspace_id").notNull().default(DEFAULT_WORKSPACE_ID),
   ipAddress: text("ip_address").notNull(),
   ipVersion: text("ip_version").notNull(), // "IPv4" or "IPv6"
+  addressClass: text("address_class").notNull().default("public"), // AddressClass
   riskScore: integer("risk_score").notNull(), // 0-100
   isVpn: boolean("is_vpn").notNull(),
   isProxy: boolean("is_proxy").notNull(),
@@ -24,12 +70,17 @@ export const ipAnalyses = pgTable("ip_analyses", {
   latitude: real("latitude"),
   longitude: real("longitude"),
   timezone: text("timezone"),
+  signals: jsonb("signals").$type<RiskSignal[]>().notNull().default([]),
+  policyVersion: integer("policy_version"), // Scoring policy version the score was computed with
   analyzedAt: timestamp("analyzed_at").notNull(),
-});
+}, (table) => [
+  index("ip_analyses_ip_address_idx").on(table.workspaceId, table.ipAddress, table.analyzedAt),
+]);
 
 // WHOIS Record schema
 export const whoisRecords = pgTable("whois_records", {
   id: varchar("id").primaryKey(),
+  workspaceId: varchar("workspace_id").notNull().default(DEFAULT_WORKSPACE_ID),
   ipAddress: text("ip_address").notNull(),
   domain: text("domain"),
   registrar: text("registrar"),
@@ -46,18 +97,143 @@ export const whoisRecords = pgTable("whois_records", {
   originAs: text("origin_as"),
   abuseContact: text("abuse_contact"),
   techContact: text("tech_contact"),
-  fetchedAt: timestamp("fetched_at").notNull(),
+  rawText: text("raw_text"), // registry response verbatim (port-43 WHOIS)
+  version: integer("version").notNull().default(1), // Registration version of the network (per netHandle)
+  fetchedAt: timestamp("fetched_at").notNull(), // First fetch that returned this version
+  lastSeenAt: timestamp("last_seen_at"), // Latest fetch that returned it unchanged
+}, (table) => [
+  index("whois_records_ip_address_idx").on(table.workspaceId, table.ipAddress, table.fetchedAt),
+  index("whois_records_net_handle_idx").on(table.workspaceId, table.netHandle, table.fetchedAt),
+]);
+
+// Tor exit relays imported from the Tor Project's exit lists
+export const torExitNodes = pgTable("tor_exit_nodes", {
+  ipAddress: text("ip_address").primaryKey(),
+  fingerprint: text("fingerprint"), // Relay fingerprint (exit-addresses format only)
+  firstSeen: timestamp("first_seen").notNull(),
+  lastSeen: timestamp("last_seen").notNull(),
+  importedAt: timestamp("imported_at").notNull(), // Last import that contained this address
+});
+
+// "admin" implies the other scopes
+export const API_KEY_SCOPES = ["read", "analyze", "admin"] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+// API keys for service callers. Only a SHA-256 hash of the key is stored; the
+// key itself is shown once, when it is created.
+export const apiKeys = pgTable("api_keys", {
+  id: varchar("id").primaryKey(),
+  workspaceId: varchar("workspace_id").notNull().default(DEFAULT_WORKSPACE_ID), // Every request with the key acts in it
+  name: text("name").notNull(),
+  prefix: text("prefix").notNull(), // Leading characters of the key, to tell keys apart
+  keyHash: text("key_hash").notNull().unique(),
+  scopes: text("scopes").array().$type<ApiKeyScope[]>().notNull(),
+  dailyQuota: integer("daily_quota"), // Requests per UTC day; null = unlimited
+  // Quota units: one per accepted request, plus one per further address a subnet scan samples
+  requestCount: integer("request_count").notNull().default(0), // All-time units
+  usageToday: integer("usage_today").notNull().default(0), // Units used on usageDate
+  usageDate: text("usage_date"), // UTC day (YYYY-MM-DD) usageToday belongs to
+  lastUsedAt: timestamp("last_used_at"),
+  createdAt: timestamp("created_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+});
+
+export const USER_ROLES = ["viewer", "analyst", "admin"] as const;
+
+export type UserRole = typeof USER_ROLES[number];
+
+// What each dashboard role may do, in API key scopes
+export const ROLE_SCOPES: Record<UserRole, ApiKeyScope[]> = {
+  viewer: ["read"],
+  analyst: ["read", "analyze"],
+  admin: ["admin"],
+};
+
+export function roleHasScope(role: UserRole, scope: ApiKeyScope): boolean {
+  const scopes = ROLE_SCOPES[role];
+  return scopes.includes(scope) || scopes.includes("admin");
+}
+
+// Dashboard accounts; passwords are stored as salted scrypt hashes
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey(),
+  username: text("username").notNull().unique(), // Lowercase
+  passwordHash: text("password_hash").notNull(),
+  role: text("role").$type<UserRole>().notNull(),
+  workspaceIds: text("workspace_ids").array().notNull().default([DEFAULT_WORKSPACE_ID]), // Admins can open every workspace
+  createdAt: timestamp("created_at").notNull(),
+  lastLoginAt: timestamp("last_login_at"),
 });
 
-// Insert schemas
-export const insertIpAnalysisSchema = createInsertSchema(ipAnalyses).omit({ id: true });
-export const insertWhoisRecordSchema = createInsertSchema(whoisRecords).omit({ id: true });
+// Login sessions, in the layout connect-pg-simple expects
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [
+  index("IDX_session_expire").on(table.expire),
+]);
+
+// Every version of each workspace's scoring policy (see scoringPolicySchema
+// below); the highest one is in force
+export const scoringPolicies = pgTable("scoring_policies", {
+  workspaceId: varchar("workspace_id").notNull().default(DEFAULT_WORKSPACE_ID),
+  version: integer("version").notNull(),
+  policy: jsonb("policy").$type<ScoringPolicy>().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.workspaceId, table.version] }),
+]);
+
+// VPN/datacenter range lists a workspace imported, kept as imported and
+// applied on top of the shared lists in RANGES_DIR
+export const rangeImports = pgTable("range_imports", {
+  id: varchar("id").primaryKey(),
+  workspaceId: varchar("workspace_id").notNull(),
+  format: text("format").$type<"text" | "csv">().notNull(),
+  content: text("content").notNull(),
+  provider: text("provider"), // Text lists only; CSV rows name their own
+  category: text("category"), // ...as above
+  importedAt: timestamp("imported_at").notNull(),
+}, (table) => [
+  index("range_imports_workspace_idx").on(table.workspaceId, table.importedAt),
+]);
+
+// Insert schemas. The workspace of scoped rows is passed to storage separately.
+export const insertWorkspaceSchema = createInsertSchema(workspaces).omit({ id: true });
+export const insertIpAnalysisSchema = createInsertSchema(ipAnalyses, {
+  signals: z.array(riskSignalSchema),
+}).omit({ id: true, workspaceId: true });
+export const insertWhoisRecordSchema = createInsertSchema(whoisRecords).omit({ id: true, workspaceId: true });
+export const insertTorExitNodeSchema = createInsertSchema(torExitNodes);
+export const insertApiKeySchema = createInsertSchema(apiKeys, {
+  scopes: z.array(z.enum(API_KEY_SCOPES)),
+}).omit({ id: true, workspaceId: true });
+export const insertUserSchema = createInsertSchema(users, {
+  role: z.enum(USER_ROLES),
+}).omit({ id: true });
+export const insertRangeImportSchema = createInsertSchema(rangeImports, {
+  format: z.enum(["text", "csv"]),
+}).omit({ id: true, workspaceId: true });
 
 // Types
+export type Workspace = typeof workspaces.$inferSelect;
+export type InsertWorkspace = z.infer<typeof insertWorkspaceSchema>;
 export type IpAnalysis = typeof ipAnalyses.$inferSelect;
 export type InsertIpAnalysis = z.infer<typeof insertIpAnalysisSchema>;
 export type WhoisRecord = typeof whoisRecords.$inferSelect;
 export type InsertWhoisRecord = z.infer<typeof insertWhoisRecordSchema>;
+export type TorExitNode = typeof torExitNodes.$inferSelect;
+export type InsertTorExitNode = z.infer<typeof insertTorExitNodeSchema>;
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
+// What the API returns: never the hash
+export type PublicApiKey = Omit<ApiKey, "keyHash">;
+export type User = typeof users.$inferSelect;
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type PublicUser = Omit<User, "passwordHash">;
+export type RangeImport = typeof rangeImports.$inferSelect;
+export type InsertRangeImport = z.infer<typeof insertRangeImportSchema>;
 
 // API Request/Response types
 export const analyzeIpRequestSchema = z.object({
@@ -70,6 +246,132 @@ export interface AnalyzeIpResponse {
   analysis: IpAnalysis;
   whois: WhoisRecord | null;
   cached: boolean;
+  source?: "cache" | "real";
+  stale?: boolean; // Past its cache TTL; a refresh is running in the background
+  placeholder?: boolean; // No provider answered; not cached, so the next lookup asks again
+}
+
+// History queries: GET /api/analyses query parameters. Lists may be given
+// comma-separated (threatLevel=high,critical); results are keyset-paginated,
+// so pass back nextCursor with the same filters and sort to get the next page.
+export const MAX_ANALYSIS_PAGE_SIZE = 100;
+
+export const ANALYSIS_SORT_FIELDS = ["analyzedAt", "riskScore", "ipAddress"] as const;
+
+export type AnalysisSortField = typeof ANALYSIS_SORT_FIELDS[number];
+
+const queryFlag = z.enum(["true", "false"]).transform((v) => v === "true");
+
+export const analysisQuerySchema = z.object({
+  threatLevel: z
+    .string()
+    .transform((v) => v.split(",").map((s) => s.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(["low", "medium", "high", "critical"])))
+    .optional(),
+  isVpn: queryFlag.optional(),
+  isProxy: queryFlag.optional(),
+  isTor: queryFlag.optional(),
+  isDatacenter: queryFlag.optional(),
+  country: z.string().trim().min(1).optional(), // country name or ISO code
+  asn: z.string().trim().regex(/^(AS)?\d+$/i, "ASN must look like AS15169").optional(),
+  provider: z.string().trim().min(1).optional(), // substring of the detected VPN provider
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  minScore: z.coerce.number().int().min(0).max(100).optional(),
+  maxScore: z.coerce.number().int().min(0).max(100).optional(),
+  q: z.string().trim().min(1).optional(), // free text: IP, location, ISP, organization, ASN, provider
+  sort: z.enum(ANALYSIS_SORT_FIELDS).default("analyzedAt"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  limit: z.coerce.number().int().min(1).max(MAX_ANALYSIS_PAGE_SIZE).default(25),
+  cursor: z.string().optional(),
+});
+
+export type AnalysisQuery = z.infer<typeof analysisQuerySchema>;
+
+export interface AnalysisPage {
+  items: IpAnalysis[];
+  total: number; // matches across all pages
+  nextCursor: string | null;
+}
+
+// Bulk analysis runs as a background job; progress is polled via
+// GET /api/jobs/:id or streamed from GET /api/jobs/:id/events (SSE)
+export const MAX_BULK_IPS = 100;
+
+export const bulkAnalyzeRequestSchema = z.object({
+  ips: z.array(z.string()).min(1).max(MAX_BULK_IPS),
+});
+
+export type BulkJobStatus = "queued" | "running" | "completed";
+
+export interface BulkJobProgress {
+  id: string;
+  status: BulkJobStatus;
+  total: number;
+  completed: number; // finished, including failures
+  failed: number;
+  createdAt: string;
+  finishedAt: string | null;
+}
+
+export interface BulkJob extends BulkJobProgress {
+  results: AnalyzeIpResponse[];
+  errors: { ipAddress: string; error: string }[];
+  report: SubnetReport | null; // Subnet scan jobs, once completed
+}
+
+// One "item" event per finished address
+export interface BulkJobItem {
+  ipAddress: string;
+  result: AnalyzeIpResponse | null;
+  error: string | null;
+  progress: BulkJobProgress;
+}
+
+// Subnet scans: prefixes larger than the sample size are sampled evenly.
+// Samples up to MAX_SYNC_SUBNET_SAMPLE_SIZE are answered within the request;
+// larger ones run as a job (POST returns 202 with a SubnetScanJob).
+export const MAX_SUBNET_SAMPLE_SIZE = 1024;
+export const MAX_SYNC_SUBNET_SAMPLE_SIZE = 32;
+
+export const subnetScanRequestSchema = z.object({
+  cidr: z.string().min(1, "CIDR is required"),
+  sampleSize: z.number().int().min(1).max(MAX_SUBNET_SAMPLE_SIZE).optional(),
+});
+
+export type SubnetScanRequest = z.infer<typeof subnetScanRequestSchema>;
+
+export interface SubnetScanJob {
+  jobId: string;
+  total: number;
+}
+
+export interface SubnetAddressResult {
+  ipAddress: string;
+  addressClass: string;
+  riskScore: number;
+  threatLevel: string;
+  isVpn: boolean;
+  isProxy: boolean;
+  isTor: boolean;
+  isDatacenter: boolean;
+  vpnProvider: string | null;
+  asn: string | null;
+  isp: string | null;
+}
+
+export interface SubnetReport {
+  cidr: string; // normalized, host bits cleared
+  totalAddresses: string; // decimal string: an IPv6 prefix can exceed Number range
+  scanned: number;
+  sampled: boolean;
+  counts: { vpn: number; proxy: number; tor: number; datacenter: number; flagged: number };
+  threatLevels: Record<ThreatLevel, number>;
+  averageRiskScore: number;
+  topAsns: { asn: string; name: string | null; count: number }[];
+  topProviders: { name: string; count: number }[];
+  addresses: SubnetAddressResult[];
+  scannedAt: string;
 }
 
 export interface ScanStats {
@@ -79,13 +381,321 @@ export interface ScanStats {
   vpnsDetected: number;
 }
 
+export type CacheBackend = "redis" | "memory";
+
+// GET /api/admin/cache; counters since the server started
+export interface CacheStats {
+  backend: CacheBackend; // Configured backend (CACHE_BACKEND)
+  active: CacheBackend; // "memory" while Redis is unreachable
+  hits: number;
+  misses: number;
+  errors: number; // Redis commands that failed and fell back to memory
+  memoryEntries: number; // Entries in the in-process LRU
+}
+
+// Filters for the cache browser and targeted invalidation; they combine, and
+// an empty filter matches everything
+export const cacheFilterSchema = z.object({
+  ip: z.string().trim().min(1).optional(),
+  cidr: z.string().trim().min(1).optional(),
+  provider: z.string().trim().toLowerCase().min(1).optional(),
+  olderThan: z.coerce.number().int().positive().optional(), // Seconds since the entry was cached
+});
+
+// Wiping everything goes through /api/clear-cache instead
+export const cacheInvalidationRequestSchema = cacheFilterSchema.refine(
+  (filter) => Object.values(filter).some((value) => value !== undefined),
+  { message: "Choose an IP, CIDR, provider or age to invalidate" },
+);
+
+export type CacheFilter = z.infer<typeof cacheFilterSchema>;
+
+export type CacheEntryKind = "analysis" | "provider" | "other";
+
+export interface CacheEntryInfo {
+  key: string;
+  kind: CacheEntryKind;
+  ipAddress: string | null;
+  workspaceId: string | null; // Analyses are cached per workspace
+  provider: string | null; // Provider responses are shared by all workspaces
+  cachedAt: string;
+  expiresAt: string;
+  size: number; // Bytes
+}
+
+// GET /api/admin/cache/entries, most recently cached first
+export interface CacheEntryList {
+  entries: CacheEntryInfo[];
+  total: number; // Matching entries, including any beyond the listed ones
+}
+
+export const createApiKeyRequestSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1, "At least one scope is required"),
+  dailyQuota: z.number().int().positive().nullable().default(null),
+});
+
+export type CreateApiKeyRequest = z.infer<typeof createApiKeyRequestSchema>;
+
+// Returned once by POST /api/admin/api-keys
+export interface CreatedApiKey {
+  apiKey: PublicApiKey;
+  key: string;
+}
+
+const usernameSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(3, "Username must be at least 3 characters")
+  .max(64)
+  .regex(/^[a-z0-9._-]+$/, "Use letters, digits, dots, dashes and underscores");
+const passwordSchema = z.string().min(8, "Password must be at least 8 characters").max(200);
+
+export const loginRequestSchema = z.object({
+  username: z.string().trim().toLowerCase().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+// First admin account, accepted only while there are no users
+export const setupRequestSchema = z.object({
+  username: usernameSchema,
+  password: passwordSchema,
+});
+
+const workspaceIdsSchema = z.array(z.string().min(1)).max(100);
+
+// Without workspaceIds, the new user joins the creator's current workspace
+export const createUserRequestSchema = setupRequestSchema.extend({
+  role: z.enum(USER_ROLES),
+  workspaceIds: workspaceIdsSchema.optional(),
+});
+
+export const updateUserRequestSchema = z.object({
+  role: z.enum(USER_ROLES).optional(),
+  password: passwordSchema.optional(),
+  workspaceIds: workspaceIdsSchema.optional(),
+}).refine(
+  (body) => body.role !== undefined || body.password !== undefined || body.workspaceIds !== undefined,
+  "Nothing to update",
+);
+
+export type LoginRequest = z.infer<typeof loginRequestSchema>;
+export type CreateUserRequest = z.infer<typeof createUserRequestSchema>;
+export type UpdateUserRequest = z.infer<typeof updateUserRequestSchema>;
+
+// GET /api/auth/me
+export interface AuthStatus {
+  user: PublicUser | null;
+  needsSetup: boolean; // No accounts yet: the dashboard offers to create the first admin
+}
+
+export const workspaceRequestSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+});
+
+export const selectWorkspaceRequestSchema = z.object({
+  workspaceId: z.string().min(1),
+});
+
+export type WorkspaceRequest = z.infer<typeof workspaceRequestSchema>;
+
+// GET /api/workspaces: the workspaces the caller can open and the one in use
+export interface WorkspaceList {
+  current: string;
+  workspaces: Workspace[];
+}
+
+export function getUserRoleLabel(role: UserRole): string {
+  switch (role) {
+    case "viewer":
+      return "Viewer";
+    case "analyst":
+      return "Analyst";
+    case "admin":
+      return "Admin";
+  }
+}
+
+export interface TorExitListStatus {
+  count: number;
+  lastImportedAt: string | null; // ISO timestamp of the most recent import
+}
+
+// WHOIS history: a new record version is stored only when one of these
+// fields changes; refetches that match the latest version just bump lastSeenAt
+export const WHOIS_TRACKED_FIELDS = [
+  "registrantOrg",
+  "registrantName",
+  "registrantCountry",
+  "netRange",
+  "netName",
+  "netHandle",
+  "originAs",
+  "abuseContact",
+  "techContact",
+] as const;
+
+export type WhoisTrackedField = typeof WHOIS_TRACKED_FIELDS[number];
+
+export interface WhoisChange {
+  field: WhoisTrackedField;
+  before: string | null;
+  after: string | null;
+}
+
+export interface WhoisHistoryEntry {
+  record: WhoisRecord;
+  changes: WhoisChange[]; // relative to the previous entry; empty for the first
+}
+
+type WhoisFields = Partial<Pick<WhoisRecord, WhoisTrackedField>>;
+
+export function diffWhoisRecords(before: WhoisFields, after: WhoisFields): WhoisChange[] {
+  return WHOIS_TRACKED_FIELDS.flatMap((field) => {
+    const a = before[field] ?? null;
+    const b = after[field] ?? null;
+    return a === b ? [] : [{ field, before: a, after: b }];
+  });
+}
+
+// Collapse records (any order, possibly fetched for several addresses) into
+// the versions they represent, newest first
+export function buildWhoisTimeline(records: WhoisRecord[]): WhoisHistoryEntry[] {
+  const sorted = [...records].sort((a, b) => new Date(a.fetchedAt).getTime() - new Date(b.fetchedAt).getTime());
+  const entries: WhoisHistoryEntry[] = [];
+  for (const record of sorted) {
+    const previous = entries[entries.length - 1]?.record;
+    const changes = previous ? diffWhoisRecords(previous, record) : [];
+    if (previous && changes.length === 0) continue;
+    entries.push({ record, changes });
+  }
+  return entries.reverse();
+}
+
+// IP timeline: every analysis of one address, with the verdict and network
+// fields that changed since the scan before it
+export const ANALYSIS_TRACKED_FIELDS = [
+  "riskScore",
+  "threatLevel",
+  "isVpn",
+  "isProxy",
+  "isTor",
+  "isDatacenter",
+  "vpnProvider",
+  "isp",
+  "asn",
+  "country",
+] as const;
+
+export type AnalysisTrackedField = typeof ANALYSIS_TRACKED_FIELDS[number];
+
+export interface AnalysisChange {
+  field: AnalysisTrackedField;
+  before: string | number | boolean | null;
+  after: string | number | boolean | null;
+}
+
+export interface AnalysisTimelineEntry {
+  analysis: IpAnalysis;
+  changes: AnalysisChange[]; // relative to the previous scan; empty for the first
+}
+
+export function diffAnalyses(before: IpAnalysis, after: IpAnalysis): AnalysisChange[] {
+  return ANALYSIS_TRACKED_FIELDS.flatMap((field) => {
+    const a = before[field] ?? null;
+    const b = after[field] ?? null;
+    return a === b ? [] : [{ field, before: a, after: b }];
+  });
+}
+
+// Newest first, like the WHOIS timeline
+export function buildAnalysisTimeline(analyses: IpAnalysis[]): AnalysisTimelineEntry[] {
+  const sorted = [...analyses].sort((a, b) => new Date(a.analyzedAt).getTime() - new Date(b.analyzedAt).getTime());
+  return sorted
+    .map((analysis, i) => ({ analysis, changes: i > 0 ? diffAnalyses(sorted[i - 1], analysis) : [] }))
+    .reverse();
+}
+
+export function getAnalysisFieldLabel(field: AnalysisTrackedField): string {
+  switch (field) {
+    case "riskScore": return "Risk Score";
+    case "threatLevel": return "Threat Level";
+    case "isVpn": return "VPN";
+    case "isProxy": return "Proxy";
+    case "isTor": return "Tor";
+    case "isDatacenter": return "Datacenter";
+    case "vpnProvider": return "VPN Provider";
+    case "isp": return "ISP";
+    case "asn": return "ASN";
+    case "country": return "Country";
+  }
+}
+
+export function getWhoisFieldLabel(field: WhoisTrackedField): string {
+  switch (field) {
+    case "registrantOrg": return "Organization";
+    case "registrantName": return "Registrant Name";
+    case "registrantCountry": return "Country";
+    case "netRange": return "Net Range";
+    case "netName": return "Net Name";
+    case "netHandle": return "Net Handle";
+    case "originAs": return "Origin AS";
+    case "abuseContact": return "Abuse Contact";
+    case "techContact": return "Tech Contact";
+  }
+}
+
+// Scoring policy: signal weights and score thresholds, versioned so that
+// stored analyses can be traced back to the weights that produced them
+export const scoringPolicySchema = z.object({
+  version: z.number().int().positive(),
+  updatedAt: z.string(),
+  weights: z.object({
+    vpn: z.number().min(0).max(100),
+    proxy: z.number().min(0).max(100),
+    tor: z.number().min(0).max(100),
+    datacenter: z.number().min(0).max(100),
+    abuseConfidenceFactor: z.number().min(0).max(1), // multiplier applied to AbuseIPDB's 0-100 confidence
+    abuseReports: z.number().min(0).max(100), // bonus added when report count exceeds the threshold
+    abuseReportsThreshold: z.number().int().min(0),
+  }),
+  // Minimum score for each threat level
+  thresholds: z.object({
+    medium: z.number().min(0).max(100),
+    high: z.number().min(0).max(100),
+    critical: z.number().min(0).max(100),
+  }).refine((t) => t.medium <= t.high && t.high <= t.critical, {
+    message: "Thresholds must be ascending: medium <= high <= critical",
+  }),
+  // Score cut-offs used by the dashboard statistics
+  stats: z.object({
+    threatMinScore: z.number().min(0).max(100),
+    cleanMaxScore: z.number().min(0).max(100),
+  }),
+});
+
+export type ScoringPolicy = z.infer<typeof scoringPolicySchema>;
+
+// Body accepted by the admin API; version and timestamp are assigned by the server
+export const updateScoringPolicySchema = scoringPolicySchema.omit({ version: true, updatedAt: true });
+
+export type UpdateScoringPolicy = z.infer<typeof updateScoringPolicySchema>;
+
 // Threat level helpers
 export type ThreatLevel = "low" | "medium" | "high" | "critical";
 
-export function getThreatLevelFromScore(score: number): ThreatLevel {
-  if (score < 25) return "low";
-  if (score < 50) return "medium";
-  if (score < 75) return "high";
+export type ThreatThresholds = ScoringPolicy["thresholds"];
+
+export const DEFAULT_THREAT_THRESHOLDS: ThreatThresholds = { medium: 25, high: 50, critical: 75 };
+
+export function getThreatLevelFromScore(
+  score: number,
+  thresholds: ThreatThresholds = DEFAULT_THREAT_THRESHOLDS,
+): ThreatLevel {
+  if (score < thresholds.medium) return "low";
+  if (score < thresholds.high) return "medium";
+  if (score < thresholds.critical) return "high";
   return "critical";
 }
 
@@ -98,16 +708,30 @@ export function getThreatLevelLabel(level: ThreatLevel): string {
   }
 }
 
-// IP validation helpers
-export const ipv4Regex = /^(?:(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\.){3}(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)$/;
-export const ipv6Regex = /^(?:[a-fA-F0-9]{1,4}:){7}[a-fA-F0-9]{1,4}$|^::(?:[a-fA-F0-9]{1,4}:){0,6}[a-fA-F0-9]{1,4}$|^[a-fA-F0-9]{1,4}::(?:[a-fA-F0-9]{1,4}:){0,5}[a-fA-F0-9]{1,4}$|^(?:[a-fA-F0-9]{1,4}:){1,2}:(?:[a-fA-F0-9]{1,4}:){0,4}[a-fA-F0-9]{1,4}$|^(?:[a-fA-F0-9]{1,4}:){1,3}:(?:[a-fA-F0-9]{1,4}:){0,3}[a-fA-F0-9]{1,4}$|^(?:[a-fA-F0-9]{1,4}:){1,4}:(?:[a-fA-F0-9]{1,4}:){0,2}[a-fA-F0-9]{1,4}$|^(?:[a-fA-F0-9]{1,4}:){1,5}:(?:[a-fA-F0-9]{1,4}:)?[a-fA-F0-9]{1,4}$|^(?:[a-fA-F0-9]{1,4}:){1,6}:[a-fA-F0-9]{1,4}$/;
+export function getAddressClassLabel(addressClass: AddressClass): string {
+  switch (addressClass) {
+    case "public": return "Public";
+    case "private": return "Private Network";
+    case "loopback": return "Loopback";
+    case "link-local": return "Link-Local";
+    case "cgnat": return "Carrier-Grade NAT";
+    case "multicast": return "Multicast";
+    case "documentation": return "Documentation Range";
+    case "benchmarking": return "Benchmarking Range";
+    case "unspecified": return "Unspecified Address";
+    case "broadcast": return "Broadcast";
+    case "reserved": return "Reserved";
+  }
+}
 
+// IP validation helpers (see ./ip for parsing and canonical forms)
 export function isValidIpAddress(ip: string): boolean {
-  return ipv4Regex.test(ip) || ipv6Regex.test(ip);
+  return parseIp(ip) !== null;
 }
 
+// Version of the address as it will be stored, so ::ffff:1.2.3.4 is IPv4
 export function getIpVersion(ip: string): "IPv4" | "IPv6" | null {
-  if (ipv4Regex.test(ip)) return "IPv4";
-  if (ipv6Regex.test(ip)) return "IPv6";
-  return null;
+  const address = parseIp(ip);
+  if (!address) return null;
+  return toCanonicalIp(address).family === 4 ? "IPv4" : "IPv6";
 }